@@ -4,3 +4,8 @@ import { getEnv } from './env.ts';
 const app = document.getElementById('app');
 console.log('getEnv', getEnv());
 if (app) renderApp(app);
+
+// App.tsx updates re-render in place; without an accepting module the page reloads
+import.meta.hot?.accept<typeof import('./App.tsx')>('./App.tsx', (mod) => {
+  if (app) mod?.renderApp(app);
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { build } from './build.js';
+import { mkdtemp, mkdir, writeFile, readFile, rm } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+describe('build', () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), 'mini-dev-build-'));
+    await writeFile(
+      join(root, 'index.html'),
+      `<html><head>
+  <link rel="stylesheet" href="/style.css">
+  <link rel="icon" href="/favicon.ico">
+  <script src="/@env"></script>
+</head><body>
+  <script type="module" src="/main.ts"></script>
+</body></html>`
+    );
+    await writeFile(
+      join(root, 'main.ts'),
+      "import './button.css';\nimport { label } from '/lib/label.ts';\nconst n: number = 1;\nconsole.log(n, label);"
+    );
+    await mkdir(join(root, 'lib'));
+    await writeFile(join(root, 'lib', 'label.ts'), "export const label = 'from-lib';");
+    await writeFile(join(root, 'button.css'), '.button { color: blue; }');
+    await writeFile(join(root, 'style.css'), 'body { color: red; background: url(/logo.png); }');
+    await writeFile(join(root, '.env'), 'PUBLIC_API_URL=http://api\nSECRET=nope');
+    await mkdir(join(root, 'public'));
+    await writeFile(join(root, 'public', 'favicon.ico'), '');
+    await writeFile(join(root, 'public', 'logo.png'), '');
+
+    await build({ root, base: '/app/', env: {}, silent: true });
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('writes hashed assets and rewrites HTML entries', async () => {
+    const html = await readFile(join(root, 'dist', 'index.html'), 'utf-8');
+    const script = html.match(/src="\/app\/assets\/(main-[A-Z0-9]+\.js)"/);
+    expect(script).not.toBeNull();
+    expect(html).toMatch(/href="\/app\/assets\/style-[A-Z0-9]+\.css"/);
+
+    const js = await readFile(join(root, 'dist', 'assets', script![1]), 'utf-8');
+    expect(js).toContain('console.log');
+    expect(js).not.toContain(': number');
+  });
+
+  it('links CSS imported from scripts', async () => {
+    const html = await readFile(join(root, 'dist', 'index.html'), 'utf-8');
+    expect(html).toMatch(/href="\/app\/assets\/main-[A-Z0-9]+\.css"/);
+  });
+
+  it('inlines prefixed env vars in place of the /@env script', async () => {
+    const html = await readFile(join(root, 'dist', 'index.html'), 'utf-8');
+    expect(html).not.toContain('/@env');
+    expect(html).toContain('window.__MINI_DEV_ENV__={"PUBLIC_API_URL":"http://api"}');
+    expect(html).not.toContain('SECRET');
+  });
+
+  it('copies public/ and applies base to other absolute URLs', async () => {
+    expect(existsSync(join(root, 'dist', 'favicon.ico'))).toBe(true);
+    const html = await readFile(join(root, 'dist', 'index.html'), 'utf-8');
+    expect(html).toContain('href="/app/favicon.ico"');
+  });
+
+  it('resolves root-absolute imports from the root', async () => {
+    const html = await readFile(join(root, 'dist', 'index.html'), 'utf-8');
+    const script = html.match(/src="\/app\/assets\/(main-[A-Z0-9]+\.js)"/);
+    const js = await readFile(join(root, 'dist', 'assets', script![1]), 'utf-8');
+    expect(js).toContain('from-lib');
+  });
+
+  it('leaves CSS url()s of public/ files in place, under base', async () => {
+    const html = await readFile(join(root, 'dist', 'index.html'), 'utf-8');
+    const sheet = html.match(/href="\/app\/assets\/(style-[A-Z0-9]+\.css)"/);
+    const css = await readFile(join(root, 'dist', 'assets', sheet![1]), 'utf-8');
+    expect(css).toContain('url(/app/logo.png)');
+    expect(existsSync(join(root, 'dist', 'logo.png'))).toBe(true);
+  });
+
+  it('rejects an outDir that is or contains the root', async () => {
+    await expect(build({ root, outDir: '.', silent: true })).rejects.toThrow('outDir must not be the project root');
+    await expect(build({ root, outDir: '..', silent: true })).rejects.toThrow('must not contain the project root');
+    expect(existsSync(join(root, 'main.ts'))).toBe(true);
+  });
+
+  it('does not take an earlier build in dist/ for entries', async () => {
+    const { files } = await build({ root, outDir: 'out', silent: true });
+    expect(files).toContain('index.html');
+    expect(files.some((f) => f.startsWith('dist/'))).toBe(false);
+    await rm(join(root, 'out'), { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,248 @@
+import { readFile, readdir, writeFile, mkdir, rm, cp, stat } from 'node:fs/promises';
+import { existsSync, statSync } from 'node:fs';
+import { join, dirname, resolve, relative, extname, isAbsolute } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createRequire } from 'node:module';
+import { build as esbuild, type Loader, type Plugin as EsbuildPlugin } from 'esbuild';
+import { loadPublicEnv } from './load-env.js';
+import type { BuildOptions, BuildResult } from './types.js';
+
+const require = createRequire(import.meta.url);
+const pkg = require(join(dirname(fileURLToPath(import.meta.url)), '../package.json'));
+
+/** Assets referenced from JS/CSS that esbuild copies to outDir with a hashed name. */
+const ASSET_LOADERS: Record<string, Loader> = {
+  '.png': 'file',
+  '.jpg': 'file',
+  '.jpeg': 'file',
+  '.gif': 'file',
+  '.svg': 'file',
+  '.webp': 'file',
+  '.avif': 'file',
+  '.ico': 'file',
+  '.woff': 'file',
+  '.woff2': 'file',
+  '.ttf': 'file',
+  '.eot': 'file',
+  '.mp4': 'file',
+  '.webm': 'file',
+  '.mp3': 'file',
+  '.wav': 'file',
+  '.txt': 'file',
+};
+
+interface HtmlTag {
+  /** Full matched tag text */
+  tag: string;
+  url: string;
+  /** Absolute file path of the referenced entry */
+  file: string;
+}
+
+export function getAttr(attrs: string, name: string): string | null {
+  const m = attrs.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return m ? (m[1] ?? m[2] ?? m[3]) : null;
+}
+
+/**
+ * HTML files under root, skipping dotfiles, `node_modules`, `public/`, outDir and `dist/` (the
+ * default outDir, which may hold an earlier build).
+ */
+export async function findHtmlEntries(root: string, outDir: string): Promise<string[]> {
+  const skip = new Set(['node_modules', 'public']);
+  const outDirs = new Set([outDir, join(root, 'dist')]);
+  const found: string[] = [];
+  const walk = async (dir: string) => {
+    const entries = await readdir(dir, { withFileTypes: true });
+    for (const e of entries) {
+      if (e.name.startsWith('.') || skip.has(e.name)) continue;
+      const full = join(dir, e.name);
+      if (e.isDirectory()) {
+        if (!outDirs.has(full)) await walk(full);
+      } else if (e.isFile() && extname(e.name) === '.html') {
+        found.push(full);
+      }
+    }
+  };
+  await walk(root);
+  return found.sort();
+}
+
+/**
+ * Build the app for production: bundles the module scripts and stylesheets referenced from every
+ * HTML file in root with esbuild, writes hashed assets and rewritten HTML to outDir, and copies
+ * `public/`. The output can be served with `PreviewServer` / `mini-dev preview`.
+ */
+export async function build(options: BuildOptions = {}): Promise<BuildResult> {
+  const startTime = Date.now();
+  const root = resolve(options.root ?? process.cwd());
+  const outDir = resolve(root, options.outDir ?? 'dist');
+  const rawBase = options.base ?? '';
+  const base = rawBase ? (rawBase.startsWith('/') ? rawBase : '/' + rawBase).replace(/\/?$/, '/') : '';
+  const basePrefix = base ? base.replace(/\/$/, '') : '';
+  const envPrefix =
+    options.env === false || options.env === undefined ? null : (options.env?.prefix ?? 'PUBLIC_');
+  const silent = options.silent ?? process.env.CI === 'true';
+  const label = options.label ?? 'MINI-DEV build';
+
+  // Emptying outDir would delete the sources, and the output would be taken for entries
+  const fromOutDir = relative(outDir, root);
+  if (!fromOutDir.startsWith('..') && !isAbsolute(fromOutDir)) {
+    throw new Error(
+      outDir === root
+        ? `outDir must not be the project root (${root})`
+        : `outDir ${outDir} must not contain the project root (${root})`
+    );
+  }
+  const fromRoot = relative(root, outDir);
+  const outDirInsideRoot = !fromRoot.startsWith('..') && !isAbsolute(fromRoot);
+  if (options.emptyOutDir ?? outDirInsideRoot) {
+    await rm(outDir, { recursive: true, force: true });
+  }
+  await mkdir(outDir, { recursive: true });
+
+  const htmlFiles = await findHtmlEntries(root, outDir);
+  if (htmlFiles.length === 0) {
+    throw new Error(`No HTML entries found in ${root}`);
+  }
+
+  // URL in HTML → file on disk. Absolute URLs are relative to root (optionally under base).
+  const resolveHtmlUrl = (url: string, htmlFile: string): string | null => {
+    if (/^([a-z]+:)?\/\//i.test(url) || url.startsWith('data:')) return null;
+    let path = url.split(/[?#]/)[0];
+    if (basePrefix && path.startsWith(basePrefix + '/')) path = path.slice(basePrefix.length);
+    const file = path.startsWith('/') ? join(root, path.slice(1)) : resolve(dirname(htmlFile), path);
+    return existsSync(file) && statSync(file).isFile() ? file : null;
+  };
+
+  const pages = new Map<string, { html: string; tags: HtmlTag[] }>();
+  const entryPoints = new Set<string>();
+  for (const htmlFile of htmlFiles) {
+    const html = await readFile(htmlFile, 'utf-8');
+    const tags: HtmlTag[] = [];
+    for (const m of html.matchAll(/<script\b([^>]*)>\s*<\/script>/gi)) {
+      const src = getAttr(m[1], 'src');
+      if (!src || getAttr(m[1], 'type') !== 'module') continue;
+      const file = resolveHtmlUrl(src, htmlFile);
+      if (file) tags.push({ tag: m[0], url: src, file });
+    }
+    for (const m of html.matchAll(/<link\b([^>]*)>/gi)) {
+      const href = getAttr(m[1], 'href');
+      if (!href || getAttr(m[1], 'rel') !== 'stylesheet') continue;
+      const file = resolveHtmlUrl(href, htmlFile);
+      if (file) tags.push({ tag: m[0], url: href, file });
+    }
+    for (const t of tags) entryPoints.add(t.file);
+    pages.set(htmlFile, { html, tags });
+  }
+
+  // Root-absolute imports and CSS url()s resolve as in the dev server: from root first, then
+  // from public/, whose files are copied as they are and keep their URL (under base)
+  const publicDir = join(root, 'public');
+  const rootAbsolutePlugin: EsbuildPlugin = {
+    name: 'mini-dev:root-absolute',
+    setup(b) {
+      b.onResolve({ filter: /^\// }, async (args) => {
+        if (args.kind === 'entry-point' || args.path.startsWith('//')) return undefined;
+        const resolved = await b.resolve('.' + args.path, { kind: args.kind, resolveDir: root });
+        if (resolved.errors.length === 0) return resolved;
+        const file = join(publicDir, args.path.split(/[?#]/)[0]);
+        if (existsSync(file) && statSync(file).isFile()) return { path: basePrefix + args.path, external: true };
+        return undefined;
+      });
+    },
+  };
+
+  const result = await esbuild({
+    absWorkingDir: root,
+    entryPoints: [...entryPoints],
+    outdir: join(outDir, 'assets'),
+    entryNames: '[name]-[hash]',
+    chunkNames: '[name]-[hash]',
+    assetNames: '[name]-[hash]',
+    publicPath: (base || '/') + 'assets',
+    bundle: true,
+    splitting: true,
+    format: 'esm',
+    platform: 'browser',
+    target: options.target ?? 'es2020',
+    minify: options.minify ?? true,
+    sourcemap: options.sourcemap ?? false,
+    loader: ASSET_LOADERS,
+    define: { 'process.env.NODE_ENV': '"production"' },
+    metafile: true,
+    logLevel: 'silent',
+    plugins: [rootAbsolutePlugin],
+  });
+
+  // Entry file → emitted JS/CSS (and CSS extracted from JS imports)
+  const outputs = new Map<string, { file: string; cssBundle?: string }>();
+  for (const [outPath, output] of Object.entries(result.metafile.outputs)) {
+    if (!output.entryPoint) continue;
+    outputs.set(resolve(root, output.entryPoint), {
+      file: resolve(root, outPath),
+      cssBundle: output.cssBundle ? resolve(root, output.cssBundle) : undefined,
+    });
+  }
+  const toUrl = (file: string) => (base || '/') + relative(outDir, file).replace(/\\/g, '/');
+
+  const envScript = `<script>window.__MINI_DEV_ENV__=${JSON.stringify(
+    envPrefix !== null ? await loadPublicEnv(root, envPrefix) : {}
+  ).replace(/</g, '\\u003c')};</script>`;
+  const envTagRe = new RegExp(
+    `<script\\b[^>]*\\ssrc=["'](?:${basePrefix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})?/@env["'][^>]*>\\s*</script>`,
+    'gi'
+  );
+
+  for (const [htmlFile, { html: source, tags }] of pages) {
+    let html = source;
+    for (const t of tags) {
+      const out = outputs.get(t.file);
+      if (!out) continue;
+      let replacement = t.tag.replace(t.url, () => toUrl(out.file));
+      if (out.cssBundle) {
+        replacement = `<link rel="stylesheet" href="${toUrl(out.cssBundle)}">\n  ` + replacement;
+      }
+      html = html.replace(t.tag, () => replacement);
+    }
+    html = html.replace(envTagRe, () => envScript);
+    if (base) {
+      const prefixNoLead = basePrefix.slice(1).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      const absPathRe = new RegExp(`\\s(href|src)=(["'])\\/(?!\\/)(?!${prefixNoLead}\\/)`, 'g');
+      html = html.replace(absPathRe, ` $1=$2${basePrefix}/`);
+    }
+    const target = join(outDir, relative(root, htmlFile));
+    await mkdir(dirname(target), { recursive: true });
+    await writeFile(target, html);
+  }
+
+  if (existsSync(publicDir)) {
+    await cp(publicDir, outDir, { recursive: true });
+  }
+
+  const files: string[] = [];
+  const collect = async (dir: string) => {
+    for (const e of await readdir(dir, { withFileTypes: true })) {
+      const full = join(dir, e.name);
+      if (e.isDirectory()) await collect(full);
+      else files.push(relative(outDir, full).replace(/\\/g, '/'));
+    }
+  };
+  await collect(outDir);
+  files.sort();
+
+  if (!silent) {
+    const c = { dim: '\x1b[2m', cyan: '\x1b[36m', green: '\x1b[32m', bold: '\x1b[1m', reset: '\x1b[0m' };
+    const version = pkg.version ?? '0.0.1';
+    const displayOut = isAbsolute(options.outDir ?? '') ? outDir : relative(process.cwd(), outDir) || '.';
+    let lines = `\n${c.bold}${c.cyan}  ${label}${c.reset} v${version}\n\n`;
+    for (const f of files) {
+      const size = (await stat(join(outDir, f))).size;
+      lines += `  ${c.dim}${displayOut}/${c.reset}${c.cyan}${f}${c.reset}  ${c.dim}${(size / 1024).toFixed(2)} kB${c.reset}\n`;
+    }
+    lines += `\n${c.green}  ✓${c.reset} built in ${Date.now() - startTime}ms\n`;
+    console.log(lines);
+  }
+
+  return { outDir, files };
+}
@@ -3,11 +3,15 @@
 import { resolve, join } from 'node:path';
 import { DevServer } from './dev-server.js';
 import { PreviewServer } from './preview-server.js';
-import { loadConfig } from './load-config.js';
+import { build } from './build.js';
+import chokidar from 'chokidar';
+import { loadConfig, type LoadedConfig } from './load-config.js';
+import type { DevServerOptions, UserConfig } from './types.js';
 
 const args = process.argv.slice(2);
 const isPreview = args[0] === 'preview';
-if (isPreview) args.shift();
+const isBuild = args[0] === 'build';
+if (isPreview || isBuild) args.shift();
 
 let port = isPreview ? 4173 : 3000;
 let root = isPreview ? join(process.cwd(), 'dist') : process.cwd();
@@ -17,6 +21,14 @@ let label: string | undefined;
 let open = false;
 let host: string | undefined;
 let base: string | undefined;
+let outDir: string | undefined;
+let minify = true;
+let sourcemap = false;
+let force = false;
+let https = false;
+let strictPort = false;
+let configFile: string | undefined;
+let mode: string | undefined;
 
 for (let i = 0; i < args.length; i++) {
   switch (args[i]) {
@@ -42,6 +54,33 @@ for (let i = 0; i < args.length; i++) {
     case '--base':
       base = args[++i] ?? '';
       break;
+    case '-d':
+    case '--outDir':
+      outDir = args[++i];
+      break;
+    case '--no-minify':
+      minify = false;
+      break;
+    case '--sourcemap':
+      sourcemap = true;
+      break;
+    case '--force':
+      force = true;
+      break;
+    case '--https':
+      https = true;
+      break;
+    case '--strictPort':
+      strictPort = true;
+      break;
+    case '-c':
+    case '--config':
+      configFile = args[++i];
+      break;
+    case '-m':
+    case '--mode':
+      mode = args[++i];
+      break;
     case '-s':
     case '--silent':
       silent = true;
@@ -52,7 +91,26 @@ for (let i = 0; i < args.length; i++) {
       break;
     case '-h':
     case '--help':
-      if (isPreview) {
+      if (isBuild) {
+        console.log(`
+mini-dev build - Bundle HTML entries for production
+
+Usage:
+  mini-dev build [options]
+
+Options:
+  -r, --root <path>      Project root with HTML entries (default: cwd)
+  -d, --outDir <dir>     Output directory, relative to root (default: dist)
+  --base <path>          Base path the output is served from, e.g. /app/
+  --no-minify            Disable minification
+  --sourcemap            Emit source maps
+  -c, --config <file>    Config file (default: mini-dev.config.* in root)
+  -m, --mode <mode>      Mode passed to a config function (default: production)
+  -l, --label <name>     Label in logs (default: MINI-DEV build)
+  -s, --silent           Disable all logs
+  -h, --help             Show this help
+`);
+      } else if (isPreview) {
         console.log(`
 mini-dev preview - Serve static build output
 
@@ -62,10 +120,14 @@ Usage:
 Options:
   -p, --port <number>  Port to listen on (default: 4173)
   -r, --root <path>    Root directory to serve (default: ./dist)
+  -c, --config <file>  Config file (default: mini-dev.config.* in cwd)
+  -m, --mode <mode>    Mode passed to a config function (default: production)
   -l, --label <name>   Label in logs (default: MINI-DEV preview)
   -o, --open           Open browser on start
   --host [addr]        Expose to network (default: 0.0.0.0)
   --base <path>        Base path, e.g. /app/
+  --https              Serve over HTTPS with a generated local certificate
+  --strictPort         Exit if the port is in use instead of trying the next one
   -s, --silent         Disable all logs
   -h, --help           Show this help
 `);
@@ -75,19 +137,26 @@ mini-dev - Minimal dev server with HMR
 
 Usage:
   mini-dev [options]
+  mini-dev build [options]
   mini-dev preview [options]
 
 Commands:
   (default)  Start dev server with HMR
+  build      Bundle HTML entries into ./dist for production
   preview    Serve static build (e.g. ./dist) without HMR
 
 Options:
   -p, --port <number>  Port to listen on (default: 3000 / 4173 for preview)
   -r, --root <path>    Root directory (default: cwd / ./dist for preview)
+  -c, --config <file>  Config file (default: mini-dev.config.* in root); edits restart the server
+  -m, --mode <mode>    Mode passed to a config function (default: development)
   -l, --label <name>   Dev server label in logs (default: MINI-DEV)
   -o, --open           Open browser on start
   --host [addr]        Expose to network (default: 0.0.0.0)
   --base <path>        Base path, e.g. /app/ for serving under /app/
+  --https              Serve over HTTPS with a generated local certificate
+  --strictPort         Exit if the port is in use instead of trying the next one
+  --force              Re-bundle dependencies, ignoring the cache
   -s, --silent         Disable all logs (auto-enabled when CI=true)
   -v, --verbose        Enable verbose logging
   -h, --help           Show this help
@@ -97,31 +166,105 @@ Options:
   }
 }
 
-if (isPreview) {
-  const config = await loadConfig(process.cwd());
+const command = isBuild ? 'build' : isPreview ? 'preview' : 'serve';
+const configEnv = { command, mode: mode ?? (command === 'serve' ? 'development' : 'production') } as const;
+
+async function startServer(server: DevServer | PreviewServer): Promise<void> {
+  try {
+    await server.start();
+  } catch (err) {
+    console.error('[mini-dev] Failed to start server:', err instanceof Error ? err.message : err);
+    process.exit(1);
+  }
+}
+
+async function loadConfigOrExit(configRoot: string): Promise<LoadedConfig | null> {
+  try {
+    return await loadConfig(configRoot, configEnv, configFile);
+  } catch (err) {
+    console.error('[mini-dev]', err instanceof Error ? err.message : err);
+    process.exit(1);
+  }
+}
+
+if (isBuild) {
+  const config = (await loadConfigOrExit(root))?.config ?? {};
+  if ((config.plugins?.length || config.resolve) && !silent) {
+    console.warn('[mini-dev] plugins and resolve options in the config are not applied to builds');
+  }
+  try {
+    await build({
+      root,
+      outDir,
+      base: base ?? config.base,
+      env: config.env,
+      minify,
+      sourcemap,
+      ...(label && { label }),
+      ...(silent !== undefined && { silent }),
+    });
+  } catch (err) {
+    console.error('[mini-dev] Build failed:', err instanceof Error ? err.message : err);
+    process.exit(1);
+  }
+} else if (isPreview) {
+  const config = (await loadConfigOrExit(process.cwd()))?.config ?? {};
   const server = new PreviewServer({
     ...config,
     root,
     port,
     ...(host !== undefined && { host }),
     ...(base !== undefined && { base }),
+    ...(https && !config.https && { https }),
+    ...(strictPort && { strictPort }),
     open: open || config.open,
     ...(label && { label }),
     ...(silent !== undefined && { silent }),
   });
-  await server.start();
+  await startServer(server);
 } else {
-  const config = await loadConfig(root);
-  const server = new DevServer({
+  const devOptions = (config: UserConfig): DevServerOptions => ({
     ...config,
     root,
     port,
     ...(host !== undefined && { host }),
     ...(base !== undefined && { base }),
+    ...(https && !config.https && { https }),
+    ...(strictPort && { strictPort }),
     verbose: verbose || config.verbose,
     open: open || config.open,
+    ...(force && { optimizeDeps: { ...config.optimizeDeps, force } }),
     ...(label && { label }),
     ...(silent !== undefined && { silent }),
   });
-  await server.start();
+  let loaded = await loadConfigOrExit(root);
+  let server = new DevServer(devOptions(loaded?.config ?? {}));
+  await startServer(server);
+
+  // Restart in place when the config file or a local file it imports changes
+  if (loaded) {
+    const watcher = chokidar.watch(loaded.dependencies, { ignoreInitial: true });
+    let restarting = Promise.resolve();
+    watcher.on('all', (event) => {
+      if (event !== 'change' && event !== 'add' && event !== 'unlink') return;
+      restarting = restarting.then(async () => {
+        const previous = loaded!;
+        try {
+          loaded = (await loadConfig(root, configEnv, previous.path)) ?? previous;
+        } catch (err) {
+          // Keep serving with the last working config until the file is fixed
+          console.error('[mini-dev]', err instanceof Error ? err.message : err);
+          return;
+        }
+        watcher.unwatch(previous.dependencies.filter((dep) => !loaded!.dependencies.includes(dep)));
+        watcher.add(loaded.dependencies.filter((dep) => !previous.dependencies.includes(dep)));
+        try {
+          // Opening the browser again on every save would be a nuisance
+          server = await server.restart({ ...devOptions(loaded.config), open: false });
+        } catch (err) {
+          console.error('[mini-dev] Failed to restart server:', err instanceof Error ? err.message : err);
+        }
+      });
+    });
+  }
 }
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, writeFile, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { defineConfig, validateConfig } from './config.js';
+import { loadConfig } from './load-config.js';
+
+const serve = { command: 'serve', mode: 'development' } as const;
+
+describe('validateConfig', () => {
+  it('accepts known options', () => {
+    expect(() =>
+      validateConfig(
+        { port: 5173, https: { cert: 'c.pem' }, spa: true, env: false, resolve: { alias: [] }, cleanUrls: true },
+        'mini-dev.config.ts'
+      )
+    ).not.toThrow();
+  });
+
+  it('lists unknown keys with a suggestion and values of the wrong type', () => {
+    let message = '';
+    try {
+      validateConfig({ prot: 3000, open: 'yes', optimizeDeps: { focre: true }, esbuild: { jsx: 'react' } }, 'mini-dev.config.ts');
+    } catch (err) {
+      message = (err as Error).message;
+    }
+    expect(message).toContain('Invalid config in mini-dev.config.ts');
+    expect(message).toContain('Unknown option "prot". Did you mean "port"?');
+    expect(message).toContain('"open" must be a boolean, got "yes" (string)');
+    expect(message).toContain('Unknown option "optimizeDeps.focre". Did you mean "optimizeDeps.force"?');
+    expect(message).toContain(`"esbuild.jsx" must be 'automatic' | 'transform' | 'preserve'`);
+  });
+
+  it('rejects ports out of range and non-object exports', () => {
+    expect(() => validateConfig({ port: 70000 }, 'c.js')).toThrow('"port" must be a port number (0-65535), got 70000 (number)');
+    expect(() => validateConfig('port', 'c.js')).toThrow('expected the default export to be an object');
+  });
+
+  it('defineConfig returns its argument', () => {
+    const fn = () => ({ port: 1 });
+    expect(defineConfig(fn)).toBe(fn);
+    expect(defineConfig({ base: '/app/' })).toEqual({ base: '/app/' });
+  });
+});
+
+describe('loadConfig', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'mini-dev-config-'));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('resolves null without a config file', async () => {
+    expect(await loadConfig(root, serve)).toBeNull();
+  });
+
+  it('calls a config function with command and mode and lists local imports', async () => {
+    await writeFile(join(root, 'shared.ts'), "export const label: string = 'SHARED';");
+    await writeFile(
+      join(root, 'mini-dev.config.ts'),
+      "import { label } from './shared';\nexport default ({ command, mode }: { command: string; mode: string }) => ({ label: `${label}-${command}-${mode}` });"
+    );
+    const loaded = await loadConfig(root, serve);
+    expect(loaded?.config).toEqual({ label: 'SHARED-serve-development' });
+    expect(loaded?.path).toBe(join(root, 'mini-dev.config.ts'));
+    expect(loaded?.dependencies.sort()).toEqual([join(root, 'mini-dev.config.ts'), join(root, 'shared.ts')].sort());
+  });
+
+  it('loads concurrently without collisions and cleans up', async () => {
+    const other = join(root, 'other');
+    await writeFile(join(root, 'mini-dev.config.ts'), 'export default { port: 1111 };');
+    await writeFile(join(root, 'custom.config.mjs'), 'export default { port: 2222 };');
+    const [a, b] = await Promise.all([
+      loadConfig(root, serve),
+      loadConfig(other, serve, join(root, 'custom.config.mjs')),
+    ]);
+    expect(a?.config.port).toBe(1111);
+    expect(b?.config.port).toBe(2222);
+    expect(await readdir(join(root, 'node_modules', '.mini-dev'))).toEqual([]);
+  });
+
+  it('reads a changed import on the next load', async () => {
+    await writeFile(join(root, 'port.js'), 'export default 1111;');
+    await writeFile(join(root, 'mini-dev.config.js'), "import port from './port.js';\nexport default { port };");
+    expect((await loadConfig(root, serve))?.config.port).toBe(1111);
+    await writeFile(join(root, 'port.js'), 'export default 2222;');
+    expect((await loadConfig(root, serve))?.config.port).toBe(2222);
+  });
+
+  it('loads CommonJS configs', async () => {
+    await writeFile(join(root, 'mini-dev.config.cjs'), "module.exports = { base: '/app/', root: __dirname };");
+    expect((await loadConfig(root, serve))?.config).toEqual({ base: '/app/', root });
+  });
+
+  it('rejects syntax errors, invalid options and a missing --config file', async () => {
+    await writeFile(join(root, 'mini-dev.config.ts'), 'export default { port: };');
+    await expect(loadConfig(root, serve)).rejects.toThrow('Failed to load config from mini-dev.config.ts');
+    await writeFile(join(root, 'mini-dev.config.ts'), 'export default { prot: 3000 };');
+    await expect(loadConfig(root, serve)).rejects.toThrow('Did you mean "port"?');
+    await expect(loadConfig(root, serve, join(root, 'missing.ts'))).rejects.toThrow('Config file not found');
+  });
+});
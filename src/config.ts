@@ -0,0 +1,159 @@
+import type { UserConfig, UserConfigExport, UserConfigFn } from './types.js';
+
+/**
+ * Type helper for `mini-dev.config.*`: returns its argument, typed. Accepts options, a
+ * promise of them, or a function receiving `{ command, mode }`.
+ *
+ * @example
+ * ```ts
+ * export default defineConfig(({ command }) => ({
+ *   base: command === 'build' ? '/app/' : '',
+ * }));
+ * ```
+ */
+export function defineConfig(config: UserConfig): UserConfig;
+export function defineConfig(config: Promise<UserConfig>): Promise<UserConfig>;
+export function defineConfig(config: UserConfigFn): UserConfigFn;
+export function defineConfig(config: UserConfigExport): UserConfigExport {
+  return config;
+}
+
+interface Rule {
+  /** How the expected value reads in an error, e.g. `a number` */
+  expected: string;
+  test: (value: unknown) => boolean;
+  /** Known keys, when the value is an object with a fixed shape */
+  keys?: Schema;
+}
+
+type Schema = Record<string, Rule>;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof RegExp);
+
+const string: Rule = { expected: 'a string', test: (v) => typeof v === 'string' };
+const boolean: Rule = { expected: 'a boolean', test: (v) => typeof v === 'boolean' };
+const number: Rule = { expected: 'a number', test: (v) => typeof v === 'number' && !Number.isNaN(v) };
+const regexp: Rule = { expected: 'a RegExp', test: (v) => v instanceof RegExp };
+const array: Rule = { expected: 'an array', test: Array.isArray };
+const no: Rule = { expected: 'false', test: (v) => v === false };
+const port: Rule = {
+  expected: 'a port number (0-65535)',
+  test: (v) => Number.isInteger(v) && (v as number) >= 0 && (v as number) <= 65535,
+};
+const object = (keys?: Schema): Rule => ({ expected: 'an object', test: isObject, keys });
+const literal = (...values: string[]): Rule => ({
+  expected: values.map((v) => `'${v}'`).join(' | '),
+  test: (v) => values.includes(v as string),
+});
+const oneOf = (...rules: Rule[]): Rule => ({
+  expected: rules.map((r) => r.expected).join(' or '),
+  test: (v) => rules.some((r) => r.test(v)),
+  keys: rules.find((r) => r.keys)?.keys,
+});
+
+const SCHEMA: Schema = {
+  root: string,
+  port,
+  strictPort: boolean,
+  host: string,
+  verbose: boolean,
+  ignored: oneOf(string, regexp, array),
+  label: string,
+  silent: boolean,
+  open: boolean,
+  overlay: boolean,
+  base: string,
+  https: oneOf(boolean, object({ key: string, cert: string, pfx: string, passphrase: string })),
+  proxy: oneOf(object(), array),
+  middlewares: oneOf(array, object({ pre: array, post: array })),
+  mock: oneOf(string, object({ dir: string, delay: number })),
+  spa: oneOf(boolean, object({ index: string, include: array, exclude: array })),
+  env: oneOf(no, object({ prefix: string })),
+  plugins: array,
+  optimizeDeps: object({ include: array, exclude: array, force: boolean }),
+  resolve: object({ conditions: array, alias: oneOf(object(), array), extensions: array }),
+  cache: oneOf(no, object({ persist: boolean })),
+  esbuild: object({
+    jsx: literal('automatic', 'transform', 'preserve'),
+    jsxFactory: string,
+    jsxFragment: string,
+    jsxImportSource: string,
+    target: oneOf(string, array),
+    define: object(),
+  }),
+  cleanUrls: boolean,
+  trailingSlash: boolean,
+  headers: object(),
+  redirects: array,
+};
+
+/**
+ * Check config values against the known options. Throws one error listing every unknown
+ * key (with the closest known one as a suggestion) and every value of the wrong type.
+ */
+export function validateConfig(config: unknown, file: string): asserts config is UserConfig {
+  if (!isObject(config)) {
+    throw new Error(`Invalid config in ${file}: expected the default export to be an object, got ${describe(config)}`);
+  }
+  const problems: string[] = [];
+  checkKeys(config, SCHEMA, '', problems);
+  if (problems.length > 0) {
+    throw new Error(`Invalid config in ${file}:\n${problems.map((p) => `  - ${p}`).join('\n')}`);
+  }
+}
+
+function checkKeys(value: Record<string, unknown>, schema: Schema, prefix: string, problems: string[]): void {
+  for (const [key, item] of Object.entries(value)) {
+    const name = prefix + key;
+    const rule = schema[key];
+    if (!rule) {
+      const suggestion = closest(key, Object.keys(schema));
+      problems.push(`Unknown option "${name}".` + (suggestion ? ` Did you mean "${prefix + suggestion}"?` : ''));
+      continue;
+    }
+    if (item === undefined) continue;
+    if (!rule.test(item)) {
+      problems.push(`"${name}" must be ${rule.expected}, got ${describe(item)}`);
+      continue;
+    }
+    if (rule.keys && isObject(item)) checkKeys(item, rule.keys, name + '.', problems);
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `${JSON.stringify(value)} (string)`;
+  if (typeof value === 'object' || typeof value === 'function') return `a ${typeof value}`;
+  return `${String(value)} (${typeof value})`;
+}
+
+/** The known key closest to `key` (ignoring case), within 2 edits, or 1 for short keys. */
+function closest(key: string, known: string[]): string | null {
+  let best: string | null = null;
+  let bestDistance = key.length <= 4 ? 2 : 3;
+  for (const candidate of known) {
+    const d = distance(key.toLowerCase(), candidate.toLowerCase());
+    if (d < bestDistance) {
+      best = candidate;
+      bestDistance = d;
+    }
+  }
+  return best;
+}
+
+/** Edit distance, counting a swap of neighbouring characters as one edit (`prot` → `port`). */
+function distance(a: string, b: string): number {
+  const d = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
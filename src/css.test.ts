@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { compileCssModule, cssToModule, wrapCssImport } from './css.js';
+
+describe('compileCssModule', () => {
+  it('scopes class names and exports the mapping', () => {
+    const { css, classes } = compileCssModule('.button { color: red; }\n.button:hover .icon { opacity: .5; }', '/Button.module.css');
+    const button = classes.button[0] as string;
+    const icon = classes.icon[0] as string;
+    expect(button).toMatch(/^button_[0-9a-f]{6}$/);
+    expect(css).toBe(`.${button} { color: red; }\n.${button}:hover .${icon} { opacity: .5; }`);
+  });
+
+  it('keeps names stable across edits and unique across files', () => {
+    const a = compileCssModule('.title { color: red; }', '/a.module.css');
+    const edited = compileCssModule('.title { color: blue; font-weight: bold; }', '/a.module.css');
+    const b = compileCssModule('.title { color: red; }', '/b.module.css');
+    expect(edited.classes.title).toEqual(a.classes.title);
+    expect(b.classes.title).not.toEqual(a.classes.title);
+  });
+
+  it('leaves :global selectors unscoped', () => {
+    const { css, classes } = compileCssModule(
+      ':global(.dark) .card { color: white; }\n:global .reset, .box { margin: 0; }',
+      '/x.module.css'
+    );
+    expect(css).toContain(`.dark .${classes.card[0]} {`);
+    expect(css).toContain(`.reset, .${classes.box[0]} {`);
+    expect(classes.dark).toBeUndefined();
+    expect(classes.reset).toBeUndefined();
+  });
+
+  it('supports :local inside and scopes classes in @media', () => {
+    const { css, classes } = compileCssModule('@media (min-width: 1.5em) { :local(.wide) { width: 100%; } }', '/x.module.css');
+    expect(css).toBe(`@media (min-width: 1.5em) { .${classes.wide[0]} { width: 100%; } }`);
+  });
+
+  it('handles composes from the same file, global and other files', () => {
+    const { css, classes } = compileCssModule(
+      `.base { padding: 0; }
+.primary { composes: base; composes: btn from global; composes: theme from './theme.module.css'; color: blue; }`,
+      '/x.module.css'
+    );
+    expect(css).not.toContain('composes');
+    expect(css).toContain('color: blue;');
+    expect(classes.primary).toEqual([
+      classes.primary[0],
+      classes.base[0],
+      'btn',
+      { from: './theme.module.css', name: 'theme' },
+    ]);
+  });
+
+  it('scopes keyframes and their animation references', () => {
+    const { css } = compileCssModule('@keyframes spin { from { transform: rotate(0); } }\n.a { animation: spin 1s linear; }', '/x.module.css');
+    const name = /@keyframes (\S+)/.exec(css)![1];
+    expect(name).toMatch(/^spin_/);
+    expect(css).toContain(`animation: ${name} 1s linear;`);
+  });
+});
+
+describe('cssToModule', () => {
+  it('exports a class mapping that imports composed modules', () => {
+    const js = cssToModule('.a_1 {}', '/x.module.css?import', {
+      a: ['a_1', { from: './theme.module.css', name: 'theme' }],
+    });
+    expect(js).toContain('import __composes0 from "./theme.module.css";');
+    expect(js).toContain('"a": ["a_1", __composes0["theme"]].join(\' \'),');
+    expect(js).toContain('export default classes;');
+  });
+});
+
+describe('wrapCssImport', () => {
+  it('wraps inlined CSS in layer, supports and media conditions', () => {
+    expect(wrapCssImport('a {}', '')).toBe('a {}');
+    expect(wrapCssImport('a {}', ' layer(base) supports(display: grid) screen and (min-width: 600px)')).toBe(
+      '@layer base {\n@supports (display: grid) {\n@media screen and (min-width: 600px) {\na {}\n}\n}\n}'
+    );
+  });
+});
@@ -0,0 +1,305 @@
+import { createHash } from 'node:crypto';
+
+/** A generated class name, or a class composed from another CSS module. */
+export type CssModuleClass = string | { from: string; name: string };
+
+/** Result of `compileCssModule`. */
+export interface CssModuleResult {
+  css: string;
+  /** Original class name → generated name followed by composed classes */
+  classes: Record<string, CssModuleClass[]>;
+}
+
+const IDENT_START = /[_a-zA-Z-]/;
+const IDENT = /^-?[_a-zA-Z][\w-]*/;
+
+/** Block-level at-rules whose body contains rules rather than declarations. */
+const NESTING_AT_RULES = new Set(['media', 'supports', 'layer', 'container', 'document', 'scope', 'starting-style']);
+
+/**
+ * `@import` statements (group 2 or 4: specifier, group 5: layer/supports/media conditions)
+ * and `url()` references (group 7), matched in one pass so inlined files are not rewritten twice.
+ */
+export const CSS_IMPORT_OR_URL_RE =
+  /@import\s+(?:url\(\s*(['"]?)([^'")]+)\1\s*\)|(['"])([^'"]+)\3)([^;]*);|\burl\(\s*(['"]?)([^'")]+)\6\s*\)/g;
+
+/** Specifiers left untouched: other origins, `data:` URIs and fragment references. */
+export function isExternalCssUrl(spec: string): boolean {
+  return /^(?:[a-z][a-z\d+.-]*:|\/\/|#)/i.test(spec);
+}
+
+/**
+ * Wrap an inlined stylesheet in the conditions of its `@import`
+ * (`layer(name)`, `supports(...)`, media queries), outermost first like the browser applies them.
+ */
+export function wrapCssImport(css: string, conditions: string): string {
+  let rest = conditions.trim();
+  let layer: string | undefined;
+  let supports: string | undefined;
+  const layerMatch = /^layer(?:\(([^)]*)\))?\s*/i.exec(rest);
+  if (layerMatch) {
+    layer = layerMatch[1]?.trim() ?? '';
+    rest = rest.slice(layerMatch[0].length);
+  }
+  const supportsMatch = /^supports\(((?:[^()]|\([^()]*\))*)\)\s*/i.exec(rest);
+  if (supportsMatch) {
+    supports = supportsMatch[1].trim();
+    rest = rest.slice(supportsMatch[0].length);
+  }
+  let out = css;
+  if (rest.trim()) out = `@media ${rest.trim()} {\n${out}\n}`;
+  if (supports !== undefined) out = `@supports (${supports}) {\n${out}\n}`;
+  if (layer !== undefined) out = `@layer${layer ? ' ' + layer : ''} {\n${out}\n}`;
+  return out;
+}
+
+/**
+ * JS module for a stylesheet imported from a script: injects (or updates) a `<style>` tag
+ * keyed by `url`, self-accepts so edits replace the tag's content, and removes the tag when
+ * no module imports the stylesheet anymore. The CSS text is the default export, or for CSS
+ * modules the class mapping. The mapping object is reused across updates (via `hot.data`) so
+ * components holding it see added classes without remounting.
+ */
+export function cssToModule(css: string, url: string, classes?: Record<string, CssModuleClass[]>): string {
+  const id = JSON.stringify(url);
+  let imports = '';
+  let exportCode = 'export default css;\n';
+  if (classes) {
+    const fromSpecs: string[] = [];
+    const entries = Object.entries(classes).map(([name, parts]) => {
+      const values = parts.map((p) => {
+        if (typeof p === 'string') return JSON.stringify(p);
+        let index = fromSpecs.indexOf(p.from);
+        if (index === -1) index = fromSpecs.push(p.from) - 1;
+        return `__composes${index}[${JSON.stringify(p.name)}]`;
+      });
+      return `  ${JSON.stringify(name)}: [${values.join(', ')}].join(' '),`;
+    });
+    imports = fromSpecs.map((spec, i) => `import __composes${i} from ${JSON.stringify(spec)};\n`).join('');
+    exportCode = `const classes = import.meta.hot?.data.classes ?? {};
+for (const key of Object.keys(classes)) delete classes[key];
+Object.assign(classes, {
+${entries.join('\n')}
+});
+if (import.meta.hot) import.meta.hot.data.classes = classes;
+export default classes;
+`;
+  }
+  return `${imports}const id = ${id};
+const css = ${JSON.stringify(css)};
+let style = document.querySelector('style[data-mini-dev-id="' + CSS.escape(id) + '"]');
+if (!style) {
+  style = document.createElement('style');
+  style.setAttribute('data-mini-dev-id', id);
+  document.head.appendChild(style);
+}
+style.textContent = css;
+import.meta.hot?.accept();
+import.meta.hot?.prune(() => style.remove());
+${exportCode}`;
+}
+
+/**
+ * Scope the class names and keyframes of a CSS module (`*.module.css`). Generated names are
+ * `<name>_<hash of id and name>`, so they stay the same while the file is edited.
+ * Supports `:global(...)` / `:local(...)`, bare `:global` / `:local` (until the next `,`),
+ * and `composes: a b`, `composes: a from global`, `composes: a from './other.module.css'`.
+ */
+export function compileCssModule(source: string, id: string): CssModuleResult {
+  const scoped = (name: string) =>
+    `${name}_${createHash('sha256').update(id + ':' + name).digest('hex').slice(0, 6)}`;
+  const classes: Record<string, CssModuleClass[]> = {};
+  const local = (name: string): string => {
+    classes[name] ??= [scoped(name)];
+    return classes[name][0] as string;
+  };
+  const keyframes = new Map<string, string>();
+  for (const m of source.matchAll(/@(?:-[a-z]+-)?keyframes\s+(-?[_a-zA-Z][\w-]*)/g)) {
+    keyframes.set(m[1], scoped(m[1]));
+  }
+
+  let i = 0;
+
+  /** Read until `;`, `{` or `}` outside strings, comments and parentheses. */
+  const readChunk = (): { text: string; stop: string } => {
+    const start = i;
+    let depth = 0;
+    while (i < source.length) {
+      const c = source[i];
+      if (c === '/' && source[i + 1] === '*') {
+        const end = source.indexOf('*/', i + 2);
+        i = end === -1 ? source.length : end + 2;
+      } else if (c === '"' || c === "'") {
+        i = skipString(source, i);
+      } else if (c === '(') {
+        depth++;
+        i++;
+      } else if (c === ')') {
+        depth--;
+        i++;
+      } else if (depth <= 0 && (c === ';' || c === '{' || c === '}')) {
+        return { text: source.slice(start, i), stop: c };
+      } else {
+        i++;
+      }
+    }
+    return { text: source.slice(start), stop: '' };
+  };
+
+  /** Copy a block verbatim, from after its `{` through the matching `}`. */
+  const readRawBlock = (): string => {
+    let out = '';
+    for (;;) {
+      const { text, stop } = readChunk();
+      out += text + stop;
+      i++;
+      if (stop === '{') out += readRawBlock();
+      if (stop === '}' || stop === '') return out;
+    }
+  };
+
+  const transformDeclaration = (decl: string, locals: string[] | null): string | null => {
+    const composes = /^\s*composes\s*:\s*([\s\S]+?)\s*$/i.exec(decl);
+    if (composes && locals) {
+      const from = /^([\s\S]*?)\s+from\s+(?:(global)|(['"])(.*)\3)$/.exec(composes[1]);
+      const names = (from ? from[1] : composes[1]).split(/\s+/).filter(Boolean);
+      for (const owner of locals) {
+        local(owner);
+        for (const name of names) {
+          if (!from) classes[owner].push(local(name));
+          else if (from[2]) classes[owner].push(name);
+          else classes[owner].push({ from: from[4], name });
+        }
+      }
+      return null;
+    }
+    const animation = /^(\s*(?:-[a-z]+-)?animation(?:-name)?\s*:)([\s\S]*)$/i.exec(decl);
+    if (animation && keyframes.size > 0) {
+      return animation[1] + animation[2].replace(/-?[_a-zA-Z][\w-]*/g, (w) => keyframes.get(w) ?? w);
+    }
+    return decl;
+  };
+
+  /** Rules and declarations until the closing `}` of the current block (or end of input). */
+  const parseBlock = (locals: string[] | null): string => {
+    let out = '';
+    for (;;) {
+      const { text, stop } = readChunk();
+      if (stop === '' || stop === '}') {
+        const last = text.trim() ? transformDeclaration(text, locals) : text;
+        out += (last ?? '') + stop;
+        i++;
+        return out;
+      }
+      i++;
+      if (stop === ';') {
+        const decl = transformDeclaration(text, locals);
+        if (decl !== null) out += decl + ';';
+        continue;
+      }
+      const prelude = text.trim();
+      const atRule = /^@(?:-[a-z]+-)?([\w-]+)/.exec(prelude);
+      if (atRule) {
+        const name = atRule[1].toLowerCase();
+        if (name === 'keyframes') {
+          out += text.replace(/(keyframes\s+)(-?[_a-zA-Z][\w-]*)/, (_m, p: string, n: string) => p + (keyframes.get(n) ?? n));
+          out += '{' + readRawBlock();
+        } else if (NESTING_AT_RULES.has(name)) {
+          out += text + '{' + parseBlock(locals);
+        } else {
+          out += text + '{' + parseBlock(null);
+        }
+      } else {
+        const selector = localizeSelector(text, local);
+        out += selector.text + '{' + parseBlock(selector.locals);
+      }
+    }
+  };
+
+  let css = '';
+  while (i < source.length) css += parseBlock(null);
+  return { css, classes };
+}
+
+function skipString(s: string, i: number): number {
+  const quote = s[i];
+  i++;
+  while (i < s.length && s[i] !== quote) {
+    if (s[i] === '\\') i++;
+    i++;
+  }
+  return i + 1;
+}
+
+function matchParen(s: string, open: number): number {
+  let depth = 0;
+  for (let j = open; j < s.length; j++) {
+    if (s[j] === '(') depth++;
+    else if (s[j] === ')' && --depth === 0) return j;
+  }
+  return s.length;
+}
+
+/** Rename local class selectors; returns the original names of the local classes found. */
+function localizeSelector(
+  selector: string,
+  local: (name: string) => string,
+  forceLocal = false
+): { text: string; locals: string[] } {
+  const locals: string[] = [];
+  let out = '';
+  let mode: 'local' | 'global' = 'local';
+  let j = 0;
+  while (j < selector.length) {
+    const c = selector[j];
+    const rest = selector.slice(j);
+    if (c === '"' || c === "'") {
+      const end = skipString(selector, j);
+      out += selector.slice(j, end);
+      j = end;
+    } else if (c === '[') {
+      const end = selector.indexOf(']', j);
+      const stop = end === -1 ? selector.length : end + 1;
+      out += selector.slice(j, stop);
+      j = stop;
+    } else if (!forceLocal && /^:(global|local)\(/.test(rest)) {
+      const open = j + rest.indexOf('(');
+      const close = matchParen(selector, open);
+      const inner = selector.slice(open + 1, close);
+      if (rest.startsWith(':global')) {
+        out += inner;
+      } else {
+        const localized = localizeSelector(inner, local, true);
+        out += localized.text;
+        locals.push(...localized.locals);
+      }
+      j = close + 1;
+    } else if (!forceLocal && /^:(global|local)(?![\w-])/.test(rest)) {
+      mode = rest.startsWith(':global') ? 'global' : 'local';
+      j += mode === 'global' ? ':global'.length : ':local'.length;
+      while (j < selector.length && /\s/.test(selector[j])) j++;
+    } else if (c === ',') {
+      mode = 'local';
+      out += c;
+      j++;
+    } else if (c === '.' && IDENT_START.test(selector[j + 1] ?? '')) {
+      const name = IDENT.exec(selector.slice(j + 1))?.[0];
+      if (!name) {
+        out += c;
+        j++;
+        continue;
+      }
+      if (mode === 'local') {
+        out += '.' + local(name);
+        locals.push(name);
+      } else {
+        out += '.' + name;
+      }
+      j += 1 + name.length;
+    } else {
+      out += c;
+      j++;
+    }
+  }
+  return { text: out, locals };
+}
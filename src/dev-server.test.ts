@@ -1,10 +1,14 @@
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
-import { createServer, type Server } from 'node:http';
+import { createServer, type ClientRequest, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import WebSocket, { WebSocketServer } from 'ws';
 import { DevServer } from './dev-server.js';
+import type { DevServerOptions } from './types.js';
 import { PreviewServer } from './preview-server.js';
 import { parseEnvString, loadPublicEnv } from './load-env.js';
-import { mkdtemp, writeFile, rm } from 'node:fs/promises';
+import { mkdtemp, mkdir, writeFile, readFile, readdir, rm } from 'node:fs/promises';
+import { get as httpsGet } from 'node:https';
 import { existsSync } from 'node:fs';
+import { brotliCompressSync } from 'node:zlib';
 import { tmpdir } from 'node:os';
 import { join, resolve } from 'node:path';
 
@@ -47,6 +51,41 @@ describe('DevServer', () => {
     expect(js).toContain('import.meta.hot');
   });
 
+  it('rewrites only real imports and keeps the inline source map aligned', async () => {
+    await writeFile(join(root, 'dep.ts'), 'export const dep = 1;');
+    await writeFile(join(root, 'logo.png'), '');
+    await writeFile(
+      join(root, 'imports.ts'),
+      [
+        "import { dep } from './dep';",
+        "export * from './dep';",
+        "const text = \"import x from './not-an-import'\";",
+        "const lazy = () => import(\n  './dep'\n);",
+        "const logo = new URL('./logo.png', import.meta.url);",
+        'console.log(dep, text, lazy, logo);',
+      ].join('\n')
+    );
+    const js = await (await fetch(`http://localhost:${port}/imports.ts`)).text();
+    expect(js).toContain('import { dep } from "/dep.ts";');
+    expect(js).toContain('export * from "/dep.ts";');
+    expect(js).toContain("'./not-an-import'");
+    expect(js).toMatch(/import\(\s*"\/dep\.ts"\s*\)/);
+    expect(js).toContain('new URL("/logo.png", import.meta.url)');
+
+    const b64 = /sourceMappingURL=data:application\/json;base64,(\S+)/.exec(js)![1];
+    const map = JSON.parse(Buffer.from(b64, 'base64').toString());
+    const injectedLines = js.slice(0, js.indexOf('import { dep }')).split('\n').length - 1;
+    expect(map.mappings.startsWith(';'.repeat(injectedLines))).toBe(true);
+    expect(map.mappings[injectedLines]).not.toBe(';');
+  });
+
+  it('quotes rewritten URLs so quotes in file names stay valid', async () => {
+    await writeFile(join(root, "it's.ts"), 'export const quoted = 1;');
+    await writeFile(join(root, 'quoted.ts'), 'import { quoted } from "./it\'s";\nconsole.log(quoted);');
+    const js = await (await fetch(`http://localhost:${port}/quoted.ts`)).text();
+    expect(js).toContain(`from "/it's.ts"`);
+  });
+
   it('serves CSS', async () => {
     const res = await fetch(`http://localhost:${port}/style.css`);
     expect(res.ok).toBe(true);
@@ -73,6 +112,7 @@ describe('DevServer proxy', () => {
   const backendPort = 3097;
   let devServer: DevServer;
   let backend: Server;
+  let backendWss: WebSocketServer;
   let root: string;
 
   beforeAll(async () => {
@@ -80,8 +120,27 @@ describe('DevServer proxy', () => {
     await writeFile(join(root, 'index.html'), '<html><body>ok</body></html>');
 
     backend = createServer((req, res) => {
-      res.writeHead(200, { 'Content-Type': 'application/json', 'X-Backend': 'true' });
-      res.end(JSON.stringify({ path: req.url, method: req.method }));
+      if (req.url === '/api/events') {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.write('data: first\n\n');
+        setTimeout(() => res.end('data: second\n\n'), 300);
+        return;
+      }
+      if (req.url === '/api/login') {
+        res.writeHead(200, { 'Set-Cookie': ['session=abc; Path=/', 'theme=dark; Path=/'] });
+        res.end();
+        return;
+      }
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        res.writeHead(200, { 'Content-Type': 'application/json', 'X-Backend': 'true' });
+        res.end(JSON.stringify({ path: req.url, method: req.method, body }));
+      });
+    });
+    backendWss = new WebSocketServer({ server: backend });
+    backendWss.on('connection', (ws, req) => {
+      ws.on('message', (data) => ws.send(`${req.url}: ${data}`));
     });
     await new Promise<void>((resolve) => backend.listen(backendPort, () => resolve()));
 
@@ -89,13 +148,17 @@ describe('DevServer proxy', () => {
       root,
       port: proxyPort,
       verbose: false,
-      proxy: { '/api': `http://localhost:${backendPort}` },
+      proxy: {
+        '/api': `http://localhost:${backendPort}`,
+        '/socket': { target: `ws://localhost:${backendPort}`, ws: true },
+      },
     });
     await devServer.start();
   });
 
   afterAll(async () => {
     await devServer.stop();
+    backendWss.close();
     await new Promise<void>((resolve) => backend.close(() => resolve()));
     await rm(root, { recursive: true, force: true });
   });
@@ -123,6 +186,592 @@ describe('DevServer proxy', () => {
     expect(html).toContain('ok');
     expect(res.headers.get('x-backend')).toBeNull();
   });
+
+  it('forwards request bodies', async () => {
+    const res = await fetch(`http://localhost:${proxyPort}/api/items`, { method: 'POST', body: 'name=x' });
+    const data = await res.json() as { method: string; body: string };
+    expect(data).toMatchObject({ method: 'POST', body: 'name=x' });
+  });
+
+  it('streams responses as they arrive', async () => {
+    const res = await fetch(`http://localhost:${proxyPort}/api/events`);
+    expect(res.headers.get('content-type')).toBe('text/event-stream');
+    const reader = res.body!.getReader();
+    const first = await reader.read();
+    expect(new TextDecoder().decode(first.value)).toBe('data: first\n\n');
+    let rest = '';
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      rest += new TextDecoder().decode(chunk.value);
+    }
+    expect(rest).toBe('data: second\n\n');
+  });
+
+  it('keeps multiple Set-Cookie headers separate', async () => {
+    const res = await fetch(`http://localhost:${proxyPort}/api/login`);
+    expect(res.headers.getSetCookie()).toEqual(['session=abc; Path=/', 'theme=dark; Path=/']);
+  });
+
+  it('forwards WebSocket connections for ws rules', async () => {
+    const ws = new WebSocket(`ws://localhost:${proxyPort}/socket/chat?room=1`);
+    await new Promise((resolve, reject) => {
+      ws.once('open', resolve);
+      ws.once('error', reject);
+    });
+    const reply = new Promise((resolve) => ws.once('message', (data) => resolve(data.toString())));
+    ws.send('hello');
+    expect(await reply).toBe('/socket/chat?room=1: hello');
+    ws.close();
+  });
+
+  it('keeps the HMR socket on other paths', async () => {
+    const ws = new WebSocket(`ws://localhost:${proxyPort}/`);
+    await new Promise((resolve, reject) => {
+      ws.once('open', resolve);
+      ws.once('error', reject);
+    });
+    expect(ws.readyState).toBe(WebSocket.OPEN);
+    ws.close();
+  });
+});
+
+describe('PreviewServer proxy', () => {
+  const port = 3077;
+  const backendPort = 3076;
+  let server: PreviewServer;
+  let backend: Server;
+  let backendWss: WebSocketServer;
+
+  beforeAll(async () => {
+    backend = createServer((_req, res) => res.end('from backend'));
+    backendWss = new WebSocketServer({ server: backend });
+    backendWss.on('connection', (ws) => ws.on('message', (data) => ws.send(`echo ${data}`)));
+    await new Promise<void>((resolve) => backend.listen(backendPort, () => resolve()));
+    server = new PreviewServer({
+      root: resolve('.'),
+      port,
+      silent: true,
+      proxy: [{ path: '/ws', target: `http://localhost:${backendPort}`, ws: true }],
+    });
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    backendWss.close();
+    await new Promise<void>((resolve) => backend.close(() => resolve()));
+  });
+
+  it('proxies requests and WebSocket connections', async () => {
+    expect(await (await fetch(`http://localhost:${port}/ws/info`)).text()).toBe('from backend');
+    const ws = new WebSocket(`ws://localhost:${port}/ws`);
+    await new Promise((resolve) => ws.once('open', resolve));
+    const reply = new Promise((resolve) => ws.once('message', (data) => resolve(data.toString())));
+    ws.send('ping');
+    expect(await reply).toBe('echo ping');
+    ws.close();
+  });
+});
+
+describe('Proxy options', () => {
+  const devPort = 3075;
+  const previewPort = 3074;
+  const backendPort = 3073;
+  let devServer: DevServer;
+  let previewServer: PreviewServer;
+  let backend: Server;
+
+  beforeAll(async () => {
+    backend = createServer((req, res) => {
+      if (req.url === '/login') {
+        res.writeHead(302, {
+          Location: `http://localhost:${backendPort}/home`,
+          'Set-Cookie': ['session=abc; Domain=backend.test; Path=/', 'id=1; Domain=other.test'],
+        });
+        res.end();
+        return;
+      }
+      if (req.url === '/slow') {
+        setTimeout(() => res.end('late'), 1000);
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json', 'X-Upstream': 'yes' });
+      res.end(JSON.stringify({ path: req.url, host: req.headers.host, auth: req.headers.authorization, hook: req.headers['x-hook'] }));
+    });
+    await new Promise<void>((resolve) => backend.listen(backendPort, () => resolve()));
+
+    const proxy = {
+      '/api': {
+        target: `http://localhost:${backendPort}`,
+        rewrite: '',
+        changeOrigin: true,
+        headers: { Authorization: 'Bearer token' },
+        timeout: 300,
+        cookieDomainRewrite: { 'backend.test': '' },
+      },
+      '^/v\\d+/': {
+        target: `http://localhost:${backendPort}`,
+        rewrite: (path: string) => path.replace(/^\/v(\d+)/, '/version-$1'),
+        onProxyReq: (proxyReq: ClientRequest) => proxyReq.setHeader('X-Hook', 'request'),
+        onProxyRes: (proxyRes: IncomingMessage) => {
+          proxyRes.headers['x-upstream'] = 'rewritten';
+        },
+      },
+      '/broken-hook': {
+        target: `http://localhost:${backendPort}`,
+        onProxyRes: () => {
+          throw new Error('hook failed');
+        },
+      },
+    };
+    devServer = new DevServer({ root: resolve('.'), port: devPort, verbose: false, proxy });
+    previewServer = new PreviewServer({ root: resolve('.'), port: previewPort, silent: true, proxy });
+    await devServer.start();
+    await previewServer.start();
+  });
+
+  afterAll(async () => {
+    await devServer.stop();
+    await previewServer.stop();
+    await new Promise<void>((resolve) => backend.close(() => resolve()));
+  });
+
+  for (const [name, port] of [['DevServer', devPort], ['PreviewServer', previewPort]] as const) {
+    it(`${name}: strips the prefix, sets Host and adds headers`, async () => {
+      const data = await (await fetch(`http://localhost:${port}/api/users?page=2`)).json();
+      expect(data).toEqual({ path: '/users?page=2', host: `localhost:${backendPort}`, auth: 'Bearer token' });
+    });
+
+    it(`${name}: rewrites cookie domains and same-origin redirects`, async () => {
+      const res = await fetch(`http://localhost:${port}/api/login`, { redirect: 'manual' });
+      expect(res.status).toBe(302);
+      expect(res.headers.get('location')).toBe('/home');
+      expect(res.headers.getSetCookie()).toEqual(['session=abc; Path=/', 'id=1; Domain=other.test']);
+    });
+
+    it(`${name}: answers 504 when the target is too slow`, async () => {
+      const res = await fetch(`http://localhost:${port}/api/slow`);
+      expect(res.status).toBe(504);
+    });
+
+    it(`${name}: matches regex paths and runs the hooks`, async () => {
+      const res = await fetch(`http://localhost:${port}/v2/items`);
+      expect(res.headers.get('x-upstream')).toBe('rewritten');
+      const data = await res.json();
+      expect(data).toMatchObject({ path: '/version-2/items', host: `localhost:${port}`, hook: 'request' });
+    });
+
+    it(`${name}: answers 502 when onProxyRes throws`, async () => {
+      const res = await fetch(`http://localhost:${port}/broken-hook/items`);
+      expect(res.status).toBe(502);
+      expect((await fetch(`http://localhost:${port}/api/users`)).status).toBe(200);
+    });
+  }
+});
+
+describe('Middleware', () => {
+  const devPort = 3072;
+  const previewPort = 3071;
+  let devServer: DevServer;
+  let previewServer: PreviewServer;
+  let root: string;
+  const seen: string[] = [];
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), 'mini-dev-middleware-'));
+    await writeFile(join(root, 'index.html'), '<html><body>page</body></html>');
+    const middlewares = {
+      pre: [
+        (req: IncomingMessage, res: ServerResponse, next: (err?: unknown) => void) => {
+          seen.push(req.url ?? '');
+          res.setHeader('X-Powered-By', 'middleware');
+          next();
+        },
+        async (req: IncomingMessage, res: ServerResponse, next: (err?: unknown) => void) => {
+          if (req.url === '/private') {
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            res.writeHead(401);
+            res.end('denied');
+            return;
+          }
+          if (req.url === '/broken') return next(new Error('middleware failed'));
+          next();
+        },
+      ],
+      post: [
+        (req: IncomingMessage, res: ServerResponse, next: (err?: unknown) => void) => {
+          if (req.url !== '/fallback') return next();
+          res.end('from post');
+        },
+      ],
+    };
+    devServer = new DevServer({ root, port: devPort, silent: true, middlewares });
+    previewServer = new PreviewServer({ root, port: previewPort, silent: true, middlewares });
+    await devServer.start();
+    await previewServer.start();
+  });
+
+  afterAll(async () => {
+    await devServer.stop();
+    await previewServer.stop();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  for (const [name, port] of [['DevServer', devPort], ['PreviewServer', previewPort]] as const) {
+    it(`${name}: runs pre middleware before the built-in handlers`, async () => {
+      const res = await fetch(`http://localhost:${port}/index.html`);
+      expect(res.headers.get('x-powered-by')).toBe('middleware');
+      expect(await res.text()).toContain('page');
+      const denied = await fetch(`http://localhost:${port}/private`);
+      expect(denied.status).toBe(401);
+      expect(await denied.text()).toBe('denied');
+    });
+
+    it(`${name}: runs post middleware for unserved requests`, async () => {
+      expect(await (await fetch(`http://localhost:${port}/fallback`)).text()).toBe('from post');
+      expect((await fetch(`http://localhost:${port}/missing.txt`)).status).toBe(404);
+    });
+
+    it(`${name}: answers 500 for next(err)`, async () => {
+      const res = await fetch(`http://localhost:${port}/broken`);
+      expect(res.status).toBe(500);
+      expect(await res.text()).toBe('middleware failed');
+    });
+  }
+
+  it('adds middleware with use() and exposes the http server', async () => {
+    devServer.use((req, res, next) => {
+      if (req.url === '/health') res.end('ok');
+      else next();
+    });
+    expect(await (await fetch(`http://localhost:${devPort}/health`)).text()).toBe('ok');
+    expect(devServer.httpServer?.listening).toBe(true);
+    expect(seen).toContain('/health');
+  });
+});
+
+describe('DevServer mock API', () => {
+  const port = 3070;
+  let server: DevServer;
+  let root: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), 'mini-dev-mock-'));
+    await mkdir(join(root, 'mock/api/users'), { recursive: true });
+    await mkdir(join(root, 'mock/api/files'), { recursive: true });
+    await mkdir(join(root, 'fixtures'), { recursive: true });
+    await writeFile(join(root, 'fixtures/users.ts'), "export const users = [{ id: '1', name: 'Ada' }];");
+    await writeFile(join(root, 'mock/api/users/index.get.ts'), "export default [{ id: '1' }];");
+    await writeFile(
+      join(root, 'mock/api/users/index.post.ts'),
+      'export const status = 201;\nexport default (req: { body: unknown }) => ({ created: req.body });'
+    );
+    await writeFile(
+      join(root, 'mock/api/users/[id].get.ts'),
+      `import { users } from '../../../fixtures/users';
+export default (req: { params: { id: string } }, res: { statusCode: number }) => {
+  const user = users.find((u) => u.id === req.params.id);
+  if (!user) res.statusCode = 404;
+  return user ?? { error: 'not found' };
+};`
+    );
+    await writeFile(join(root, 'mock/api/files/[...path].ts'), 'export default (req: { params: { path: string } }) => req.params.path;');
+    await writeFile(join(root, 'mock/api/slow.ts'), "export const delay = 200;\nexport default 'done';");
+    await writeFile(join(root, 'mock/api/config.json'), '{"feature":true}');
+
+    server = new DevServer({
+      root,
+      port,
+      silent: true,
+      mock: 'mock',
+      proxy: { '/api': 'http://localhost:1' },
+    });
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('serves handlers, static values and JSON files ahead of the proxy', async () => {
+    expect(await (await fetch(`http://localhost:${port}/api/users`)).json()).toEqual([{ id: '1' }]);
+    expect(await (await fetch(`http://localhost:${port}/api/config`)).json()).toEqual({ feature: true });
+    expect((await fetch(`http://localhost:${port}/api/unknown`)).status).toBe(502);
+  });
+
+  it('matches methods and dynamic params', async () => {
+    const created = await fetch(`http://localhost:${port}/api/users`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'Grace' }),
+    });
+    expect(created.status).toBe(201);
+    expect(await created.json()).toEqual({ created: { name: 'Grace' } });
+
+    expect(await (await fetch(`http://localhost:${port}/api/users/1`)).json()).toEqual({ id: '1', name: 'Ada' });
+    const missing = await fetch(`http://localhost:${port}/api/users/2`);
+    expect(missing.status).toBe(404);
+    expect(await (await fetch(`http://localhost:${port}/api/files/a/b.txt`)).text()).toBe('a/b.txt');
+    expect((await fetch(`http://localhost:${port}/api/users/1`, { method: 'DELETE' })).status).toBe(502);
+  });
+
+  it('answers 400 for malformed params and invalid JSON bodies', async () => {
+    const param = await fetch(`http://localhost:${port}/api/users/%E0`);
+    expect(param.status).toBe(400);
+    expect(await param.text()).toBe('Malformed URL parameter in /api/users/%E0');
+
+    const body = await fetch(`http://localhost:${port}/api/users`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"name":',
+    });
+    expect(body.status).toBe(400);
+    expect(await body.text()).toContain('Invalid JSON body');
+  });
+
+  it('delays responses', async () => {
+    const start = Date.now();
+    expect(await (await fetch(`http://localhost:${port}/api/slow`)).text()).toBe('done');
+    expect(Date.now() - start).toBeGreaterThanOrEqual(190);
+  });
+
+  it('reloads edited mock files and their imports', async () => {
+    await writeFile(join(root, 'mock/api/users/index.get.ts'), "export default [{ id: '1' }, { id: '2' }];");
+    await writeFile(join(root, 'fixtures/users.ts'), "export const users = [{ id: '1', name: 'Lovelace' }];");
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    expect(await (await fetch(`http://localhost:${port}/api/users`)).json()).toEqual([{ id: '1' }, { id: '2' }]);
+    expect(await (await fetch(`http://localhost:${port}/api/users/1`)).json()).toEqual({ id: '1', name: 'Lovelace' });
+  });
+});
+
+describe('SPA fallback and clean URLs', () => {
+  const devPort = 3069;
+  const previewPort = 3068;
+  const slashPort = 3067;
+  let devServer: DevServer;
+  let previewServer: PreviewServer;
+  let slashServer: PreviewServer;
+  let root: string;
+  const page = { headers: { Accept: 'text/html' }, redirect: 'manual' } as const;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), 'mini-dev-spa-'));
+    await mkdir(join(root, 'admin'), { recursive: true });
+    await mkdir(join(root, 'docs'), { recursive: true });
+    await writeFile(join(root, 'index.html'), '<html><head></head><body>app</body></html>');
+    await writeFile(join(root, 'admin/index.html'), '<html><head></head><body>admin</body></html>');
+    await writeFile(join(root, 'about.html'), '<html><body>about</body></html>');
+    await writeFile(join(root, 'docs/index.html'), '<html><body>docs</body></html>');
+    devServer = new DevServer({ root, port: devPort, silent: true, spa: { exclude: ['/api'] } });
+    previewServer = new PreviewServer({
+      root,
+      port: previewPort,
+      silent: true,
+      spa: true,
+      cleanUrls: true,
+      trailingSlash: false,
+    });
+    slashServer = new PreviewServer({ root, port: slashPort, silent: true, cleanUrls: true, trailingSlash: true });
+    await devServer.start();
+    await previewServer.start();
+    await slashServer.start();
+  });
+
+  afterAll(async () => {
+    await devServer.stop();
+    await previewServer.stop();
+    await slashServer.stop();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('DevServer serves the nearest index.html with the HMR client for navigations', async () => {
+    const res = await fetch(`http://localhost:${devPort}/dashboard/settings`, page);
+    expect(res.status).toBe(200);
+    const html = await res.text();
+    expect(html).toContain('app');
+    expect(html).toContain('/@hmr-client');
+    expect(await (await fetch(`http://localhost:${devPort}/admin/users/5`, page)).text()).toContain('admin');
+  });
+
+  it('DevServer still 404s assets, non-navigations and excluded paths', async () => {
+    expect((await fetch(`http://localhost:${devPort}/missing.png`, page)).status).toBe(404);
+    expect((await fetch(`http://localhost:${devPort}/dashboard`)).status).toBe(404);
+    expect((await fetch(`http://localhost:${devPort}/api/users`, page)).status).toBe(404);
+  });
+
+  it('PreviewServer falls back to index.html for navigations', async () => {
+    const res = await fetch(`http://localhost:${previewPort}/dashboard/settings`, page);
+    expect(res.status).toBe(200);
+    expect(await res.text()).toContain('app');
+    expect((await fetch(`http://localhost:${previewPort}/missing.js`, page)).status).toBe(404);
+  });
+
+  it('PreviewServer serves clean URLs and redirects .html and trailing slashes', async () => {
+    expect(await (await fetch(`http://localhost:${previewPort}/about`, page)).text()).toContain('about');
+    expect(await (await fetch(`http://localhost:${previewPort}/`, page)).text()).toContain('app');
+    expect(await (await fetch(`http://localhost:${previewPort}/docs`, page)).text()).toContain('docs');
+
+    const html = await fetch(`http://localhost:${previewPort}/about.html?x=1`, page);
+    expect(html.status).toBe(301);
+    expect(html.headers.get('location')).toBe('/about?x=1');
+    expect((await fetch(`http://localhost:${previewPort}/index.html`, page)).headers.get('location')).toBe('/');
+    expect((await fetch(`http://localhost:${previewPort}/docs/`, page)).headers.get('location')).toBe('/docs');
+  });
+
+  it('PreviewServer adds trailing slashes with trailingSlash: true', async () => {
+    const res = await fetch(`http://localhost:${slashPort}/about`, page);
+    expect(res.status).toBe(301);
+    expect(res.headers.get('location')).toBe('/about/');
+    expect(await (await fetch(`http://localhost:${slashPort}/about/`, page)).text()).toContain('about');
+    expect((await fetch(`http://localhost:${slashPort}/docs/index.html`, page)).headers.get('location')).toBe('/docs/');
+    expect((await fetch(`http://localhost:${slashPort}/about.html`, page)).headers.get('location')).toBe('/about/');
+  });
+});
+
+describe('PreviewServer static files', () => {
+  const port = 3066;
+  let server: PreviewServer;
+  let root: string;
+  const script = 'console.log("hello world");\n'.repeat(100);
+  const video = Buffer.from(Array.from({ length: 5000 }, (_, i) => i % 256));
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), 'mini-dev-static-'));
+    await writeFile(join(root, 'app.js'), script);
+    await writeFile(join(root, 'main-AB2CD3EF.js'), 'export {};');
+    await writeFile(join(root, 'clip.mp4'), video);
+    await writeFile(join(root, 'style.css'), 'body { color: red; }');
+    await writeFile(join(root, 'style.css.br'), brotliCompressSync('body { color: blue; }'));
+    server = new PreviewServer({ root, port, silent: true });
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('answers conditional requests with 304', async () => {
+    const res = await fetch(`http://localhost:${port}/clip.mp4`);
+    const etag = res.headers.get('etag')!;
+    expect(etag).toBeTruthy();
+    expect(res.headers.get('cache-control')).toBe('public, max-age=0, must-revalidate');
+    await res.arrayBuffer();
+    expect((await fetch(`http://localhost:${port}/clip.mp4`, { headers: { 'If-None-Match': etag } })).status).toBe(304);
+    const since = res.headers.get('last-modified')!;
+    expect((await fetch(`http://localhost:${port}/clip.mp4`, { headers: { 'If-Modified-Since': since } })).status).toBe(304);
+  });
+
+  it('serves byte ranges', async () => {
+    const res = await fetch(`http://localhost:${port}/clip.mp4`, { headers: { Range: 'bytes=100-199' } });
+    expect(res.status).toBe(206);
+    expect(res.headers.get('content-range')).toBe('bytes 100-199/5000');
+    expect(Buffer.from(await res.arrayBuffer())).toEqual(video.subarray(100, 200));
+
+    const suffix = await fetch(`http://localhost:${port}/clip.mp4`, { headers: { Range: 'bytes=-10' } });
+    expect(Buffer.from(await suffix.arrayBuffer())).toEqual(video.subarray(4990));
+    const outside = await fetch(`http://localhost:${port}/clip.mp4`, { headers: { Range: 'bytes=6000-' } });
+    expect(outside.status).toBe(416);
+    expect(outside.headers.get('content-range')).toBe('bytes */5000');
+  });
+
+  it('compresses text on the fly and prefers precompressed siblings', async () => {
+    const gzip = await fetch(`http://localhost:${port}/app.js`, { headers: { 'Accept-Encoding': 'gzip' } });
+    expect(gzip.headers.get('content-encoding')).toBe('gzip');
+    expect(gzip.headers.get('vary')).toBe('Accept-Encoding');
+    expect(await gzip.text()).toBe(script);
+    const br = await fetch(`http://localhost:${port}/app.js`, { headers: { 'Accept-Encoding': 'gzip, br' } });
+    expect(br.headers.get('content-encoding')).toBe('br');
+    expect(await br.text()).toBe(script);
+    const identity = await fetch(`http://localhost:${port}/app.js`, { headers: { 'Accept-Encoding': 'identity' } });
+    expect(identity.headers.get('content-encoding')).toBeNull();
+    expect(identity.headers.get('content-length')).toBe(String(script.length));
+    await identity.text();
+
+    const css = await fetch(`http://localhost:${port}/style.css`, { headers: { 'Accept-Encoding': 'br' } });
+    expect(css.headers.get('content-encoding')).toBe('br');
+    expect(await css.text()).toBe('body { color: blue; }');
+    const plainCss = await fetch(`http://localhost:${port}/style.css`, { headers: { 'Accept-Encoding': 'gzip' } });
+    expect(await plainCss.text()).toBe('body { color: red; }');
+  });
+
+  it('caches content-hashed files for a year', async () => {
+    const res = await fetch(`http://localhost:${port}/main-AB2CD3EF.js`);
+    expect(res.headers.get('cache-control')).toBe('public, max-age=31536000, immutable');
+    await res.text();
+  });
+});
+
+describe('PreviewServer _headers and _redirects', () => {
+  const port = 3065;
+  const backendPort = 3064;
+  let server: PreviewServer;
+  let backend: Server;
+  let root: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), 'mini-dev-host-rules-'));
+    await mkdir(join(root, 'app'), { recursive: true });
+    await writeFile(join(root, 'index.html'), '<html><body>home</body></html>');
+    await writeFile(join(root, 'app/index.html'), '<html><body>app shell</body></html>');
+    await writeFile(join(root, 'legacy.html'), '<html><body>legacy file</body></html>');
+    await writeFile(join(root, '404.html'), '<html><body>custom not found</body></html>');
+    await writeFile(join(root, '_headers'), '/*\n  X-Frame-Options: DENY\n/app/*\n  Cache-Control: no-store\n');
+    await writeFile(
+      join(root, '_redirects'),
+      ['/legacy.html /index.html 301', '/forced.html /index.html 302!', '/blog/:slug /posts/:slug 302', '/app/* /app/index.html 200', '/api/* http://localhost:' + backendPort + '/v1/:splat 200'].join('\n')
+    );
+    backend = createServer((req, res) => res.end(`backend ${req.url}`));
+    await new Promise<void>((resolve) => backend.listen(backendPort, () => resolve()));
+    server = new PreviewServer({
+      root,
+      port,
+      silent: true,
+      headers: { '/index.html': { 'Content-Security-Policy': "default-src 'self'" } },
+      redirects: [{ from: '/*', to: '/404.html', status: 404 }],
+    });
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    await new Promise<void>((resolve) => backend.close(() => resolve()));
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('adds headers from _headers and the headers option', async () => {
+    const res = await fetch(`http://localhost:${port}/index.html`);
+    expect(res.headers.get('x-frame-options')).toBe('DENY');
+    expect(res.headers.get('content-security-policy')).toBe("default-src 'self'");
+    await res.text();
+    const app = await fetch(`http://localhost:${port}/app/settings`);
+    expect(app.headers.get('cache-control')).toBe('no-store');
+    expect(await app.text()).toContain('app shell');
+  });
+
+  it('answers paths with malformed percent-encoding without crashing', async () => {
+    const res = await fetch(`http://localhost:${port}/blog/%E0%A4%A`, { redirect: 'manual' });
+    expect(res.status).toBe(302);
+    expect(res.headers.get('location')).toBe('/posts/%E0%A4%A');
+    expect((await fetch(`http://localhost:${port}/index.html`)).status).toBe(200);
+  });
+
+  it('redirects with placeholders unless a file shadows the rule', async () => {
+    const blog = await fetch(`http://localhost:${port}/blog/hello?ref=x`, { redirect: 'manual' });
+    expect(blog.status).toBe(302);
+    expect(blog.headers.get('location')).toBe('/posts/hello?ref=x');
+    expect(await (await fetch(`http://localhost:${port}/legacy.html`, { redirect: 'manual' })).text()).toContain('legacy file');
+    const forced = await fetch(`http://localhost:${port}/forced.html`, { redirect: 'manual' });
+    expect(forced.status).toBe(302);
+  });
+
+  it('proxies 200 rules with a URL target and serves 404 rules', async () => {
+    expect(await (await fetch(`http://localhost:${port}/api/users?page=2`)).text()).toBe('backend /v1/users?page=2');
+    const missing = await fetch(`http://localhost:${port}/nothing/here`);
+    expect(missing.status).toBe(404);
+    expect(await missing.text()).toContain('custom not found');
+    expect((await fetch(`http://localhost:${port}/_redirects`)).status).toBe(404);
+  });
 });
 
 describe('PreviewServer', () => {
@@ -233,6 +882,1025 @@ describe('DevServer env', () => {
   });
 });
 
+describe('DevServer plugins', () => {
+  const port = 3092;
+  let server: DevServer;
+  let root: string;
+  let configured = false;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), 'mini-dev-plugins-'));
+    await writeFile(join(root, 'index.html'), '<html><head></head><body>App</body></html>');
+    await writeFile(join(root, 'main.ts'), "import config from 'virtual:config';\nconsole.log(config, __VERSION__);");
+    await writeFile(join(root, 'logo.svg'), '<svg></svg>');
+    await writeFile(join(root, 'icons.ts'), "import logo from './logo.svg';\nexport { logo };");
+
+    server = new DevServer({
+      root,
+      port,
+      plugins: [
+        {
+          name: 'virtual-config',
+          resolveId: (source) => (source === 'virtual:config' ? '\0virtual:config' : null),
+          load: (id) => (id === '\0virtual:config' ? 'export default { answer: 42 };' : null),
+        },
+        {
+          name: 'define-version',
+          transform: (code, id) => (id.endsWith('.ts') ? code.replace('__VERSION__', '"1.0.0"') : null),
+        },
+        {
+          name: 'html-banner',
+          transformIndexHtml: (html) => html.replace('<body>', '<body><!-- banner -->'),
+        },
+        {
+          name: 'configure',
+          configureServer: (ctx) => {
+            configured = ctx.root === root && ctx.httpServer !== undefined;
+          },
+        },
+      ],
+    });
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('calls configureServer before listening', () => {
+    expect(configured).toBe(true);
+  });
+
+  it('resolves and serves virtual modules under /@id/', async () => {
+    const res = await fetch(`http://localhost:${port}/main.ts`);
+    const js = await res.text();
+    expect(js).toContain('from "/@id/__x00__virtual:config"');
+    expect(js).toContain('"1.0.0"');
+
+    const virtualRes = await fetch(`http://localhost:${port}/@id/__x00__virtual:config`);
+    expect(virtualRes.ok).toBe(true);
+    expect(await virtualRes.text()).toContain('answer: 42');
+  });
+
+  it('runs transformIndexHtml hooks', async () => {
+    const res = await fetch(`http://localhost:${port}/index.html`);
+    const html = await res.text();
+    expect(html).toContain('<!-- banner -->');
+    expect(html).toContain('@hmr-client');
+  });
+
+  it('serves non-script imports as modules exporting their URL', async () => {
+    const js = await (await fetch(`http://localhost:${port}/icons.ts`)).text();
+    expect(js).toContain('from "/logo.svg?import"');
+
+    const res = await fetch(`http://localhost:${port}/logo.svg?import`);
+    expect(res.headers.get('content-type')).toContain('javascript');
+    expect(await res.text()).toContain('export default "/logo.svg"');
+  });
+});
+
+describe('DevServer HMR', () => {
+  const port = 3091;
+  let server: DevServer;
+  let root: string;
+  let ws: WebSocket;
+
+  /** Connect an HMR client that reports the given module URLs as loaded. */
+  async function connect(paths: string[]): Promise<WebSocket> {
+    const socket = new WebSocket(`ws://localhost:${port}`);
+    await new Promise((resolve) => socket.once('open', resolve));
+    socket.send(JSON.stringify({ type: 'hmr:modules', paths }));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    return socket;
+  }
+
+  function nextMessage(socket: WebSocket, timeoutMs = 3000): Promise<Record<string, unknown> | null> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => resolve(null), timeoutMs);
+      socket.once('message', (data) => {
+        clearTimeout(timer);
+        resolve(JSON.parse(data.toString()));
+      });
+    });
+  }
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), 'mini-dev-hmr-'));
+    await writeFile(join(root, 'index.html'), '<html><head></head><body></body></html>');
+    await writeFile(
+      join(root, 'main.ts'),
+      "import { render } from './app';\nrender();\nimport.meta.hot?.accept('./app', (mod) => mod.render());"
+    );
+    await writeFile(join(root, 'app.ts'), "import { label } from './label';\nexport function render() { return label; }");
+    await writeFile(join(root, 'label.ts'), "export const label = 'one';");
+    await writeFile(join(root, 'other.ts'), "export const other = 1;");
+    await writeFile(join(root, 'declined.ts'), 'import.meta.hot?.accept();\nimport.meta.hot?.decline();');
+
+    server = new DevServer({ root, port, silent: true });
+    await server.start();
+    for (const path of ['/main.ts', '/app.ts', '/label.ts', '/other.ts', '/declined.ts']) {
+      await fetch(`http://localhost:${port}${path}`);
+    }
+  });
+
+  afterAll(async () => {
+    ws?.close();
+    await server.stop();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('rewrites accepted deps to resolved URLs', async () => {
+    const js = await (await fetch(`http://localhost:${port}/main.ts`)).text();
+    expect(js).toContain('import.meta.hot?.accept("/app.ts"');
+    expect(js).toContain('from "/app.ts"');
+  });
+
+  it('sends the nearest accepting boundary for a changed module', async () => {
+    ws = await connect(['/main.ts', '/app.ts', '/label.ts?t=1']);
+    const message = nextMessage(ws);
+    await writeFile(join(root, 'label.ts'), "export const label = 'two';");
+    const msg = (await message) as { type: string; updates: Array<Record<string, unknown>> };
+    expect(msg.type).toBe('update');
+    expect(msg.updates).toHaveLength(1);
+    expect(msg.updates[0]).toMatchObject({ type: 'js-update', path: '/main.ts', acceptedPath: '/app.ts' });
+
+    const js = await (await fetch(`http://localhost:${port}/app.ts`)).text();
+    expect(js).toMatch(/from "\/label\.ts\?t=\d+"/);
+  });
+
+  it('asks for a full reload when no boundary accepts the change', async () => {
+    const other = await connect(['/other.ts']);
+    const message = nextMessage(other);
+    await writeFile(join(root, 'other.ts'), 'export const other = 2;');
+    expect(await message).toEqual({ type: 'full-reload' });
+    other.close();
+  });
+
+  it('only notifies clients that loaded the changed module', async () => {
+    const unrelated = await connect(['/other.ts']);
+    const message = nextMessage(unrelated, 1000);
+    await writeFile(join(root, 'label.ts'), "export const label = 'three';");
+    expect(await message).toBeNull();
+    unrelated.close();
+  });
+
+  it('reloads when an update reaches a module that declined it', async () => {
+    const client = await connect(['/declined.ts']);
+    const message = nextMessage(client);
+    await writeFile(join(root, 'declined.ts'), 'import.meta.hot?.accept();\nimport.meta.hot?.decline();\n// edit');
+    expect(await message).toEqual({ type: 'full-reload' });
+    client.close();
+  });
+
+  it('propagates hmr:invalidate to the importers of the module', async () => {
+    const client = await connect(['/label.ts']);
+    const message = nextMessage(client);
+    client.send(JSON.stringify({ type: 'hmr:invalidate', path: '/label.ts', message: 'cannot update' }));
+    const msg = (await message) as { type: string; updates: Array<Record<string, unknown>> };
+    expect(msg.type).toBe('update');
+    expect(msg.updates[0]).toMatchObject({ path: '/main.ts', acceptedPath: '/app.ts' });
+    client.close();
+  });
+
+  it('sends prune for modules no longer imported', async () => {
+    const client = await connect(['/label.ts']);
+    await writeFile(join(root, 'app.ts'), "export function render() { return 'static'; }");
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    const message = nextMessage(client);
+    await fetch(`http://localhost:${port}/app.ts`);
+    expect(await message).toEqual({ type: 'prune', paths: ['/label.ts'] });
+    client.close();
+  });
+});
+
+describe('DevServer CSS imports', () => {
+  const port = 3088;
+  let server: DevServer;
+  let root: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), 'mini-dev-css-'));
+    await writeFile(join(root, 'button.ts'), "import './button.css';\nexport const button = 1;");
+    await writeFile(join(root, 'button.css'), '.button { color: blue; }');
+    await writeFile(join(root, 'card.ts'), "import styles from './card.module.css';\nexport default styles;");
+    await writeFile(join(root, 'card.module.css'), ".card { composes: theme from './theme.module.css'; padding: 0; }");
+    await writeFile(join(root, 'theme.module.css'), '.theme { color: red; }');
+    await mkdir(join(root, 'styles'));
+    await mkdir(join(root, 'node_modules/fake-reset'), { recursive: true });
+    await writeFile(
+      join(root, 'main.css'),
+      "@import url('https://fonts.example.com/inter.css');\n@import './styles/tokens.css' screen;\n@import 'fake-reset/reset.css';\nbody { background: url(./bg.png); }"
+    );
+    await writeFile(join(root, 'styles/tokens.css'), ':root { --accent: red; }\n.logo { background: url(logo.svg); }');
+    await writeFile(join(root, 'node_modules/fake-reset/package.json'), '{"name":"fake-reset"}');
+    await writeFile(join(root, 'node_modules/fake-reset/reset.css'), "@font-face { src: url('./font.woff2'); }");
+    server = new DevServer({ root, port, silent: true });
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('rewrites CSS imports to module requests', async () => {
+    const js = await (await fetch(`http://localhost:${port}/button.ts`)).text();
+    expect(js).toContain('import "/button.css?import"');
+  });
+
+  it('serves imported CSS as a self-accepting module that injects a style tag', async () => {
+    const res = await fetch(`http://localhost:${port}/button.css?import`);
+    expect(res.headers.get('content-type')).toContain('javascript');
+    const js = await res.text();
+    expect(js).toContain('.button { color: blue; }');
+    expect(js).toContain("document.createElement('style')");
+    expect(js).toContain('import.meta.hot?.accept()');
+    expect(js).toContain('style.remove()');
+  });
+
+  it('still serves plain CSS for <link> requests', async () => {
+    const res = await fetch(`http://localhost:${port}/button.css`);
+    expect(res.headers.get('content-type')).toContain('text/css');
+    expect(await res.text()).toBe('.button { color: blue; }');
+  });
+
+  it('serves CSS modules with scoped class names and composed imports', async () => {
+    const ts = await (await fetch(`http://localhost:${port}/card.ts`)).text();
+    expect(ts).toContain('from "/card.module.css?import"');
+
+    const js = await (await fetch(`http://localhost:${port}/card.module.css?import`)).text();
+    const scoped = /\.(card_[0-9a-f]{6}) \{ padding: 0; \}/.exec(js);
+    expect(scoped).not.toBeNull();
+    expect(js).toContain('from "/theme.module.css?import"');
+    expect(js).toContain(`"card": ["${scoped![1]}", __composes0["theme"]].join(' ')`);
+    expect(js).toContain('import.meta.hot?.accept()');
+
+    const css = await (await fetch(`http://localhost:${port}/card.module.css`)).text();
+    expect(css).toBe(`.${scoped![1]} { padding: 0; }`);
+  });
+
+  it('inlines @import chains and rewrites url() references', async () => {
+    const css = await (await fetch(`http://localhost:${port}/main.css`)).text();
+    expect(css.startsWith("@import url('https://fonts.example.com/inter.css');")).toBe(true);
+    expect(css).toContain('@media screen {\n:root { --accent: red; }');
+    expect(css).toContain('url("/styles/logo.svg")');
+    expect(css).toContain("url('/@node_modules/fake-reset/font.woff2')");
+    expect(css).toContain('url("/bg.png")');
+    expect(css).not.toContain("@import './styles/tokens.css'");
+  });
+
+  it('refreshes stylesheets that @import a changed file on the pages that link them', async () => {
+    const ws = new WebSocket(`ws://localhost:${port}`);
+    const other = new WebSocket(`ws://localhost:${port}`);
+    await Promise.all([ws, other].map((s) => new Promise((resolve) => s.once('open', resolve))));
+    // The client reports the stylesheets its page links
+    ws.send(JSON.stringify({ type: 'hmr:modules', paths: ['/main.css'] }));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const messages: Array<{ type: string; updates: Array<Record<string, unknown>> }> = [];
+    const otherMessages: unknown[] = [];
+    ws.on('message', (data) => messages.push(JSON.parse(data.toString())));
+    other.on('message', (data) => otherMessages.push(JSON.parse(data.toString())));
+
+    await writeFile(join(root, 'styles/tokens.css'), ':root { --accent: blue; }');
+    await new Promise((resolve) => setTimeout(resolve, 500));
+
+    const paths = messages.flatMap((m) => m.updates ?? []).map((u) => u.path);
+    expect(paths).toEqual(expect.arrayContaining(['/styles/tokens.css', '/main.css']));
+    expect(otherMessages).toEqual([]);
+    const css = await (await fetch(`http://localhost:${port}/main.css`)).text();
+    expect(css).toContain('--accent: blue');
+    ws.close();
+    other.close();
+  });
+
+  it('hot-updates the imported stylesheet module', async () => {
+    const ws = new WebSocket(`ws://localhost:${port}`);
+    await new Promise((resolve) => ws.once('open', resolve));
+    ws.send(JSON.stringify({ type: 'hmr:modules', paths: ['/button.css?import'] }));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const messages: Array<{ type: string; updates: Array<Record<string, unknown>> }> = [];
+    ws.on('message', (data) => messages.push(JSON.parse(data.toString())));
+    await writeFile(join(root, 'button.css'), '.button { color: green; }');
+    await new Promise((resolve) => setTimeout(resolve, 500));
+
+    const jsUpdate = messages.flatMap((m) => m.updates ?? []).find((u) => u.type === 'js-update');
+    expect(jsUpdate).toMatchObject({ path: '/button.css?import', acceptedPath: '/button.css?import' });
+    ws.close();
+  });
+});
+
+describe('DevServer dependency optimization', () => {
+  const port = 3087;
+  let server: DevServer;
+  let root: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), 'mini-dev-deps-'));
+    const pkgs: Record<string, Record<string, string>> = {
+      'cjs-lib': {
+        'package.json': '{"name":"cjs-lib","main":"index.js"}',
+        'index.js': "exports.greet = (n) => 'hi ' + n;\nexports.version = require('./version.js');",
+        'version.js': 'module.exports = 2;',
+      },
+      'esm-lib': {
+        'package.json': '{"name":"esm-lib","type":"module","exports":{".":"./index.js"}}',
+        'index.js': "export { twice } from './twice.js';\nexport default 'esm';",
+        'twice.js': 'export const twice = (n) => n * 2;',
+      },
+      'browser-cjs': {
+        'package.json': '{"name":"browser-cjs","main":"node.js","browser":"browser.js"}',
+        'node.js': "throw new Error('loaded in Node');",
+        'browser.js': "module.exports = require('./impl.js');",
+        'impl.js': 'exports.onlyInBrowser = 1;\nexports.shared = 2;',
+      },
+      'broken-lib': {
+        'package.json': '{"name":"broken-lib","type":"module","main":"index.js"}',
+        'index.js': 'export const broken = ;',
+      },
+      'lazy-lib': {
+        'package.json': '{"name":"lazy-lib","main":"index.js"}',
+        'index.js': 'module.exports = { lazy: true };',
+      },
+      'raw-lib': {
+        'package.json': '{"name":"raw-lib","type":"module","main":"index.js","browser":{"./server.js":false}}',
+        'index.js': 'export const raw = 1;',
+        'server.js': "import 'node:fs';",
+      },
+    };
+    for (const [name, files] of Object.entries(pkgs)) {
+      await mkdir(join(root, 'node_modules', name), { recursive: true });
+      for (const [file, content] of Object.entries(files)) {
+        await writeFile(join(root, 'node_modules', name, file), content);
+      }
+    }
+    await writeFile(join(root, 'index.html'), '<script type="module" src="/main.ts"></script>');
+    await writeFile(
+      join(root, 'main.ts'),
+      "import { greet } from 'cjs-lib';\nimport esm, { twice } from 'esm-lib';\nimport { raw } from 'raw-lib';\nconsole.log(greet, esm, twice, raw);"
+    );
+    await writeFile(join(root, 'lazy.ts'), "import lazy from 'lazy-lib';\nexport default lazy;");
+    await writeFile(join(root, 'missing.ts'), "import x from 'not-installed';\nexport default x;");
+    await writeFile(join(root, 'unexported.ts'), "import x from 'esm-lib/twice.js';\nexport default x;");
+    await writeFile(join(root, 'package.json'), '{"name":"app","imports":{"#utils":"./utils.ts"}}');
+    await writeFile(join(root, 'utils.ts'), 'export const util = 1;');
+    await writeFile(join(root, 'internal.ts'), "import { util } from '#utils';\nexport default util;");
+    server = new DevServer({ root, port, silent: true, optimizeDeps: { exclude: ['raw-lib'] } });
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('bundles discovered dependencies and rewrites imports to them', async () => {
+    const js = await (await fetch(`http://localhost:${port}/main.ts`)).text();
+    expect(js).toMatch(/from "\/@deps\/cjs-lib\.js\?v=\w+"/);
+    expect(js).toMatch(/from "\/@deps\/esm-lib\.js\?v=\w+"/);
+    expect(js).toContain('from "/@node_modules/raw-lib/index.js"');
+    expect(existsSync(join(root, 'node_modules/.mini-dev/_metadata.json'))).toBe(true);
+  });
+
+  it('serves CommonJS dependencies as ESM with named exports and long-lived caching', async () => {
+    const js = await (await fetch(`http://localhost:${port}/main.ts`)).text();
+    const url = /from "(\/@deps\/cjs-lib\.js\?v=\w+)"/.exec(js)![1];
+    const res = await fetch(`http://localhost:${port}${url}`);
+    expect(res.headers.get('cache-control')).toContain('immutable');
+    const dep = await res.text();
+    expect(dep).toContain('module.exports = 2');
+    expect(dep).toMatch(/export\s*\{[^}]*greet/);
+  });
+
+  it('reads CommonJS export names statically, with browser resolution', async () => {
+    await writeFile(join(root, 'browser.ts'), "import { onlyInBrowser, shared } from 'browser-cjs';\nexport default [onlyInBrowser, shared];");
+    const js = await (await fetch(`http://localhost:${port}/browser.ts`)).text();
+    const url = /from "(\/@deps\/browser-cjs\.js\?v=\w+)"/.exec(js)![1];
+    const dep = await (await fetch(`http://localhost:${port}${url}`)).text();
+    expect(dep).not.toContain('loaded in Node');
+    expect(dep).toMatch(/export\s*\{[^}]*onlyInBrowser/);
+    expect(dep).toMatch(/export\s*\{[^}]*shared/);
+  });
+
+  it('leaves imports of packages that are not installed to the browser', async () => {
+    const missing = await fetch(`http://localhost:${port}/missing.ts`);
+    expect(missing.status).toBe(200);
+    expect(await missing.text()).toContain('import x from "not-installed"');
+  });
+
+  it('reports unresolvable imports of installed packages with the importer', async () => {
+
+    const unexported = await fetch(`http://localhost:${port}/unexported.ts`);
+    expect(unexported.status).toBe(500);
+    expect(await unexported.text()).toContain(
+      `Failed to resolve import "esm-lib/twice.js" from "/unexported.ts": Package subpath './twice.js' is not defined by "exports"`
+    );
+  });
+
+  it('serves an empty module for files the browser field maps to false', async () => {
+    await writeFile(join(root, 'server-only.ts'), "import server from 'raw-lib/server.js';\nexport default server;");
+    const js = await (await fetch(`http://localhost:${port}/server-only.ts`)).text();
+    expect(js).toContain('from "/@id/__x00__mini-dev:empty"');
+    const empty = await fetch(`http://localhost:${port}/@id/__x00__mini-dev:empty`);
+    expect(empty.status).toBe(200);
+    expect(await empty.text()).toContain('export default {};');
+  });
+
+  it('resolves #imports from the package.json imports field', async () => {
+    const js = await (await fetch(`http://localhost:${port}/internal.ts`)).text();
+    expect(js).toContain('from "/utils.ts"');
+  });
+
+  it('serves a dependency that fails to bundle from node_modules, without affecting the others', async () => {
+    await writeFile(join(root, 'broken.ts'), "import { broken } from 'broken-lib';\nexport default broken;");
+    const js = await (await fetch(`http://localhost:${port}/broken.ts`)).text();
+    expect(js).toContain('from "/@node_modules/broken-lib/index.js"');
+    const main = await (await fetch(`http://localhost:${port}/main.ts`)).text();
+    expect(main).toMatch(/from "\/@deps\/cjs-lib\.js\?v=\w+"/);
+  });
+
+  it('rebuilds cached bundles when files are missing or resolve conditions change', async () => {
+    const metadataPath = join(root, 'node_modules/.mini-dev/_metadata.json');
+    const cjsBundle = join(root, 'node_modules/.mini-dev/deps/cjs-lib.js');
+    const { hash } = JSON.parse(await readFile(metadataPath, 'utf-8'));
+    await rm(cjsBundle);
+    const other = new DevServer({ root, port: 3058, silent: true, optimizeDeps: { exclude: ['raw-lib'] } });
+    await other.start();
+    await other.stop();
+    expect(existsSync(cjsBundle)).toBe(true);
+    expect(JSON.parse(await readFile(metadataPath, 'utf-8')).hash).toBe(hash);
+
+    const custom = new DevServer({
+      root,
+      port: 3058,
+      silent: true,
+      optimizeDeps: { exclude: ['raw-lib'] },
+      resolve: { conditions: ['custom', 'import', 'browser'] },
+    });
+    await custom.start();
+    await custom.stop();
+    expect(JSON.parse(await readFile(metadataPath, 'utf-8')).hash).not.toBe(hash);
+  });
+
+  it('bundles dependencies first imported at runtime', async () => {
+    const js = await (await fetch(`http://localhost:${port}/lazy.ts`)).text();
+    expect(js).toMatch(/from "\/@deps\/lazy-lib\.js\?v=\w+"/);
+  });
+});
+
+describe('DevServer path aliases', () => {
+  const port = 3086;
+  let server: DevServer;
+  let root: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), 'mini-dev-alias-'));
+    await mkdir(join(root, 'src/lib'), { recursive: true });
+    await mkdir(join(root, 'styles'), { recursive: true });
+    await writeFile(join(root, 'tsconfig.base.json'), '{ "compilerOptions": { "paths": { "@lib/*": ["./src/lib/*"] } } }');
+    await writeFile(
+      join(root, 'tsconfig.json'),
+      '{\n  // project config\n  "extends": "./tsconfig.base.json",\n  "compilerOptions": { "baseUrl": "." },\n}'
+    );
+    await writeFile(join(root, 'src/lib/math.ts'), 'export const add = (a: number, b: number) => a + b;');
+    await writeFile(join(root, 'styles/theme.css'), '.theme { color: red; }');
+    await writeFile(
+      join(root, 'main.ts'),
+      "import { add } from '@lib/math';\nimport { x } from '~/x';\nimport { add as a2 } from 'src/lib/math';\nconsole.log(add, x, a2);"
+    );
+    await writeFile(join(root, 'x.ts'), 'export const x = 1;');
+    await writeFile(join(root, 'app.css'), "@import '@styles/theme.css';\nbody { margin: 0; }");
+    server = new DevServer({
+      root,
+      port,
+      silent: true,
+      resolve: { alias: { '~': root, '@styles': '/styles', '@lib': '/src/lib' } },
+    });
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('applies resolve.alias before tsconfig paths and baseUrl', async () => {
+    const js = await (await fetch(`http://localhost:${port}/main.ts`)).text();
+    expect(js).toContain('from "/src/lib/math.ts"');
+    expect(js).toContain('from "/x.ts"');
+  });
+
+  it('resolves tsconfig paths from extended configs', async () => {
+    await writeFile(join(root, 'paths.ts'), "import { add } from '@lib/math';\nimport { x } from 'x';\nexport default [add, x];");
+    const plain = new DevServer({ root, port: 3085, silent: true });
+    await plain.start();
+    try {
+      const js = await (await fetch(`http://localhost:3085/paths.ts`)).text();
+      expect(js).toContain('from "/src/lib/math.ts"');
+      expect(js).toContain('from "/x.ts"');
+    } finally {
+      await plain.stop();
+    }
+  });
+
+  it('honors aliases in CSS @import', async () => {
+    const css = await (await fetch(`http://localhost:${port}/app.css`)).text();
+    expect(css).toContain('.theme { color: red; }');
+    expect(css).toContain('body { margin: 0; }');
+  });
+});
+
+describe('DevServer transpile options', () => {
+  const port = 3084;
+  let server: DevServer;
+  let root: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), 'mini-dev-tsopts-'));
+    await mkdir(join(root, 'node_modules/preact'), { recursive: true });
+    await mkdir(join(root, 'legacy'), { recursive: true });
+    await writeFile(
+      join(root, 'node_modules/preact/package.json'),
+      '{"name":"preact","exports":{"./jsx-runtime":"./jsx-runtime.js"}}'
+    );
+    await writeFile(join(root, 'node_modules/preact/jsx-runtime.js'), 'export const jsx = () => null;');
+    await writeFile(
+      join(root, 'tsconfig.json'),
+      '{ "compilerOptions": { "jsx": "react-jsx", "jsxImportSource": "preact", "experimentalDecorators": true } }'
+    );
+    await writeFile(join(root, 'legacy/tsconfig.json'), '{ "compilerOptions": { "jsx": "react", "jsxFactory": "h" } }');
+    await writeFile(join(root, 'App.tsx'), 'export const App = () => <div>hi</div>;');
+    await writeFile(join(root, 'legacy/Old.tsx'), 'export const Old = () => <div>old</div>;');
+    await writeFile(
+      join(root, 'decorated.ts'),
+      'const log = (target: unknown, key: string) => {};\nexport class A { @log method() {} }'
+    );
+    server = new DevServer({ root, port, silent: true, optimizeDeps: { exclude: ['preact'] } });
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('uses JSX settings from the nearest tsconfig.json', async () => {
+    const app = await (await fetch(`http://localhost:${port}/App.tsx`)).text();
+    expect(app).toContain('from "/@node_modules/preact/jsx-runtime.js"');
+    expect(app).not.toContain('React.createElement');
+
+    const old = await (await fetch(`http://localhost:${port}/legacy/Old.tsx`)).text();
+    expect(old).toContain('h("div", null, "old")');
+  });
+
+  it('emits legacy decorators with experimentalDecorators', async () => {
+    const js = await (await fetch(`http://localhost:${port}/decorated.ts`)).text();
+    expect(js).toContain('__decorateClass');
+  });
+
+  it('serves every script extension through the transform pipeline', async () => {
+    await mkdir(join(root, 'lib'), { recursive: true });
+    await writeFile(join(root, 'lib/index.mts'), 'export const n: number = 1;');
+    await writeFile(join(root, 'Comp.jsx'), 'export const Comp = () => <b>x</b>;');
+    await writeFile(join(root, 'util.mjs'), 'export default 2;');
+    await writeFile(
+      join(root, 'main.js'),
+      "import { Comp } from './Comp';\nimport { n } from './lib';\nimport u from './util';\nimport { jsx } from 'preact/jsx-runtime';\nconsole.log(Comp, n, u, jsx);"
+    );
+
+    const main = await fetch(`http://localhost:${port}/main.js`);
+    expect(main.headers.get('content-type')).toBe('application/javascript');
+    const js = await main.text();
+    expect(js).toContain('from "/Comp.jsx"');
+    expect(js).toContain('from "/lib/index.mts"');
+    expect(js).toContain('from "/util.mjs"');
+    expect(js).toContain('from "/@node_modules/preact/jsx-runtime.js"');
+
+    const comp = await fetch(`http://localhost:${port}/Comp.jsx`);
+    expect(comp.headers.get('content-type')).toBe('application/javascript');
+    expect(await comp.text()).not.toContain('<b>');
+    expect(await (await fetch(`http://localhost:${port}/lib/index.mts`)).text()).toContain('const n = 1');
+  });
+
+  it('lets the esbuild option override tsconfig', async () => {
+    const custom = new DevServer({
+      root,
+      port: 3083,
+      silent: true,
+      esbuild: { jsx: 'transform', jsxFactory: 'createElement', define: { __DEV__: 'true' } },
+    });
+    await custom.start();
+    try {
+      await writeFile(join(root, 'dev.tsx'), 'export const el = __DEV__ && <p />;');
+      const js = await (await fetch(`http://localhost:3083/dev.tsx`)).text();
+      expect(js).toContain('el = /* @__PURE__ */ createElement("p", null)');
+    } finally {
+      await custom.stop();
+    }
+  });
+});
+
+describe('DevServer transform cache', () => {
+  const port = 3082;
+  let server: DevServer;
+  let root: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), 'mini-dev-cache-'));
+    await writeFile(join(root, 'main.ts'), "import { value } from './value';\nconsole.log(value);\nimport.meta.hot?.accept();");
+    await writeFile(join(root, 'value.ts'), 'export const value: number = 1;');
+    server = new DevServer({ root, port, silent: true });
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('serves unchanged modules from cache and answers If-None-Match with 304', async () => {
+    const first = await fetch(`http://localhost:${port}/main.ts`);
+    const etag = first.headers.get('etag')!;
+    expect(etag).toMatch(/^"\w+"$/);
+    const before = server.getCacheStats();
+
+    const again = await fetch(`http://localhost:${port}/main.ts`);
+    expect(again.headers.get('etag')).toBe(etag);
+    expect(await again.text()).toBe(await first.text());
+    expect(server.getCacheStats().hits).toBe(before.hits + 1);
+
+    const notModified = await fetch(`http://localhost:${port}/main.ts`, { headers: { 'If-None-Match': etag } });
+    expect(notModified.status).toBe(304);
+  });
+
+  it('transforms a module and the importers carrying its HMR timestamp after a change', async () => {
+    await fetch(`http://localhost:${port}/value.ts`);
+    const etag = (await fetch(`http://localhost:${port}/main.ts`)).headers.get('etag');
+    await writeFile(join(root, 'value.ts'), 'export const value: number = 2;');
+
+    let value = '';
+    for (let i = 0; i < 40 && !value.includes('= 2'); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      value = await (await fetch(`http://localhost:${port}/value.ts`)).text();
+    }
+    expect(value).toContain('= 2');
+    const main = await fetch(`http://localhost:${port}/main.ts`, { headers: { 'If-None-Match': etag! } });
+    expect(main.status).toBe(200);
+    expect(await main.text()).toMatch(/from "\/value\.ts\?t=\d+"/);
+  });
+
+  it('persists transform results across restarts', async () => {
+    const options = { root, port: 3081, silent: true, cache: { persist: true } };
+    const cold = new DevServer(options);
+    await cold.start();
+    await fetch(`http://localhost:3081/main.ts`);
+    await cold.stop();
+    expect(cold.getCacheStats()).toEqual({ hits: 0, misses: 1 });
+
+    const warm = new DevServer(options);
+    await warm.start();
+    try {
+      expect((await fetch(`http://localhost:3081/main.ts`)).ok).toBe(true);
+      expect(warm.getCacheStats()).toEqual({ hits: 1, misses: 0 });
+    } finally {
+      await warm.stop();
+    }
+  });
+
+  it('transforms again when a plugin cacheKey changes', async () => {
+    const withBanner = (banner: string, port: number): DevServerOptions => ({
+      root,
+      port,
+      silent: true,
+      cache: { persist: true },
+      plugins: [{ name: 'banner', cacheKey: banner, transform: (code) => `/* ${banner} */\n${code}` }],
+    });
+    for (const [banner, port] of [['v1', 3057], ['v2', 3056]] as const) {
+      const server = new DevServer(withBanner(banner, port));
+      await server.start();
+      try {
+        expect(await (await fetch(`http://localhost:${port}/main.ts`)).text()).toContain(`/* ${banner} */`);
+        expect(server.getCacheStats()).toEqual({ hits: 0, misses: 1 });
+      } finally {
+        await server.stop();
+      }
+    }
+  });
+});
+
+describe('HTTPS', () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), 'mini-dev-https-server-'));
+    await writeFile(join(root, 'package.json'), '{}');
+    await writeFile(join(root, 'index.html'), '<html><head></head><body></body></html>');
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  /** GET over TLS, trusting the server's generated certificate. */
+  async function get(url: string): Promise<{ status: number; body: string }> {
+    const ca = await readFile(join(root, 'node_modules/.mini-dev/certs/cert.pem'));
+    return new Promise((resolve, reject) => {
+      httpsGet(url, { ca }, (res) => {
+        let body = '';
+        res.on('data', (chunk) => (body += chunk));
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, body }));
+      }).on('error', reject);
+    });
+  }
+
+  it('serves the dev server and HMR socket over TLS', async () => {
+    const server = new DevServer({ root, port: 3079, silent: true, https: true });
+    const { url } = await server.start();
+    try {
+      expect(url).toBe('https://localhost:3079');
+      const res = await get('https://localhost:3079/index.html');
+      expect(res.status).toBe(200);
+      expect(res.body).toContain('@hmr-client');
+
+      const ca = await readFile(join(root, 'node_modules/.mini-dev/certs/cert.pem'));
+      const socket = new WebSocket('wss://localhost:3079', { ca });
+      await new Promise((resolve, reject) => socket.once('open', resolve).once('error', reject));
+      socket.close();
+    } finally {
+      await server.stop();
+    }
+  });
+
+  it('serves the preview server over TLS', async () => {
+    const preview = new PreviewServer({ root, port: 3078, silent: true, https: true });
+    const { url } = await preview.start();
+    try {
+      expect(url).toBe('https://localhost:3078');
+      expect((await get('https://localhost:3078/index.html')).status).toBe(200);
+    } finally {
+      await preview.stop();
+    }
+  });
+});
+
+describe('DevServer errors', () => {
+  const port = 3089;
+  let server: DevServer;
+  let root: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), 'mini-dev-errors-'));
+    await writeFile(join(root, 'broken.ts'), 'const a = 1;\nconst b = ;\nexport { a };');
+    await writeFile(join(root, 'main.ts'), "import { a } from './broken.ts';\nconsole.log(a);");
+    server = new DevServer({ root, port, silent: true });
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('sends transform errors with location and code frame to the clients that import the module', async () => {
+    const ws = new WebSocket(`ws://localhost:${port}`);
+    const other = new WebSocket(`ws://localhost:${port}`);
+    await Promise.all([ws, other].map((s) => new Promise((resolve) => s.once('open', resolve))));
+    expect((await fetch(`http://localhost:${port}/main.ts`)).status).toBe(200);
+    // The client reports its page's entry script, which imports the broken module
+    ws.send(JSON.stringify({ type: 'hmr:modules', paths: ['/main.ts'] }));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const message = new Promise<{ type: string; err: Record<string, unknown> }>((resolve) =>
+      ws.once('message', (data) => resolve(JSON.parse(data.toString())))
+    );
+    const otherMessages: unknown[] = [];
+    other.on('message', (data) => otherMessages.push(JSON.parse(data.toString())));
+
+    const res = await fetch(`http://localhost:${port}/broken.ts`);
+    expect(res.status).toBe(500);
+    expect(await res.text()).toContain('const b = ;');
+
+    const msg = await message;
+    expect(msg.type).toBe('error');
+    expect(msg.err).toMatchObject({ id: '/broken.ts', file: join(root, 'broken.ts'), line: 2, column: 11 });
+    expect(msg.err.frame).toContain('> 2 | const b = ;');
+    expect(otherMessages).toEqual([]);
+    ws.close();
+    other.close();
+  });
+
+  it('sends the error of a failed first load once the page connects and reports its entry', async () => {
+    // The request above failed before these clients connected
+    const ws = new WebSocket(`ws://localhost:${port}`);
+    const other = new WebSocket(`ws://localhost:${port}`);
+    await Promise.all([ws, other].map((s) => new Promise((resolve) => s.once('open', resolve))));
+    const message = new Promise<{ type: string; err: Record<string, unknown> }>((resolve) =>
+      ws.once('message', (data) => resolve(JSON.parse(data.toString())))
+    );
+    const otherMessages: unknown[] = [];
+    other.on('message', (data) => otherMessages.push(JSON.parse(data.toString())));
+    ws.send(JSON.stringify({ type: 'hmr:modules', paths: ['/main.ts'] }));
+    other.send(JSON.stringify({ type: 'hmr:modules', paths: ['/other.ts'] }));
+
+    const msg = await message;
+    expect(msg.type).toBe('error');
+    expect(msg.err).toMatchObject({ id: '/broken.ts', line: 2 });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(otherMessages).toEqual([]);
+    ws.close();
+    other.close();
+  });
+
+  it('forgets the error once the module transforms again', async () => {
+    await writeFile(join(root, 'broken.ts'), 'const a = 1;\nexport { a };');
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    expect((await fetch(`http://localhost:${port}/broken.ts`)).status).toBe(200);
+
+    const ws = new WebSocket(`ws://localhost:${port}`);
+    await new Promise((resolve) => ws.once('open', resolve));
+    const messages: unknown[] = [];
+    ws.on('message', (data) => messages.push(JSON.parse(data.toString())));
+    ws.send(JSON.stringify({ type: 'hmr:modules', paths: ['/main.ts'] }));
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(messages).toEqual([]);
+    ws.close();
+  });
+
+  it('answers 500 when a request fails outside module serving', async () => {
+    const failing = new DevServer({
+      root,
+      port: 3055,
+      silent: true,
+      env: {},
+      plugins: [{ name: 'broken-env', enforce: 'pre', load: (id) => (id === '/@env' ? Promise.reject(new Error('env unavailable')) : null) }],
+    });
+    await failing.start();
+    try {
+      const res = await fetch('http://localhost:3055/@env');
+      expect(res.status).toBe(500);
+      expect(await res.text()).toBe('env unavailable');
+    } finally {
+      await failing.stop();
+    }
+  });
+
+  it('ships the error overlay in the HMR client', async () => {
+    const js = await (await fetch(`http://localhost:${port}/@hmr-client`)).text();
+    expect(js).toContain('mini-dev-error-overlay');
+  });
+});
+
+describe('Port selection', () => {
+  const busyPort = 3061;
+  let blocker: Server;
+  let root: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), 'mini-dev-port-'));
+    await writeFile(join(root, 'index.html'), '<html><head></head><body>Port</body></html>');
+    blocker = createServer((_req, res) => res.end('blocker'));
+    await new Promise<void>((resolve) => blocker.listen(busyPort, '127.0.0.1', resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => blocker.close(resolve));
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('moves on to the next free port and reports it', async () => {
+    const server = new DevServer({ root, port: busyPort, silent: true });
+    const { port, url } = await server.start();
+    try {
+      expect(port).toBe(busyPort + 1);
+      expect(url).toBe(`http://localhost:${busyPort + 1}`);
+      expect(await (await fetch(url)).text()).toContain('Port');
+    } finally {
+      await server.stop();
+    }
+  });
+
+  it('rejects with a clear error when strictPort is set', async () => {
+    const server = new DevServer({ root, port: busyPort, strictPort: true, silent: true });
+    await expect(server.start()).rejects.toThrow(`Port ${busyPort} is already in use`);
+    const preview = new PreviewServer({ root, port: busyPort, strictPort: true, silent: true });
+    await expect(preview.start()).rejects.toThrow(`Port ${busyPort} is already in use`);
+  });
+
+  it('reports the bound address, with IPv6 in brackets and wildcards as localhost', async () => {
+    const ipv6 = new DevServer({ root, port: 0, host: '::1', silent: true });
+    const wildcard = new PreviewServer({ root, port: 0, host: '0.0.0.0', silent: true });
+    const dev = await ipv6.start();
+    const prev = await wildcard.start();
+    try {
+      expect(dev).toEqual({ port: dev.port, host: '::1', url: `http://[::1]:${dev.port}` });
+      expect((await fetch(dev.url)).status).toBe(200);
+      expect(prev).toEqual({ port: prev.port, host: '0.0.0.0', url: `http://localhost:${prev.port}` });
+    } finally {
+      await ipv6.stop();
+      await wildcard.stop();
+    }
+  });
+
+  it('reports the port the OS assigned for port 0', async () => {
+    const server = new DevServer({ root, port: 0, silent: true });
+    const preview = new PreviewServer({ root, port: 0, base: '/app/', silent: true });
+    const dev = await server.start();
+    const prev = await preview.start();
+    try {
+      expect(dev.port).toBeGreaterThan(0);
+      expect(dev.host).toBe('127.0.0.1');
+      expect(dev.url).toBe(`http://localhost:${dev.port}`);
+      expect(prev.port).toBeGreaterThan(0);
+      expect(prev.url).toBe(`http://localhost:${prev.port}/app/`);
+      expect((await fetch(prev.url)).status).toBe(200);
+    } finally {
+      await server.stop();
+      await preview.stop();
+    }
+  });
+});
+
+describe('DevServer restart', () => {
+  const port = 3060;
+  let server: DevServer;
+  let root: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), 'mini-dev-restart-'));
+    await writeFile(join(root, 'index.html'), '<html><head></head><body>Restart</body></html>');
+    server = new DevServer({ root, port, silent: true });
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('applies new options while HMR clients stay connected and reload', async () => {
+    const ws = new WebSocket(`ws://localhost:${port}`);
+    await new Promise((resolve) => ws.once('open', resolve));
+    const message = new Promise<{ type: string }>((resolve) =>
+      ws.once('message', (data) => resolve(JSON.parse(data.toString())))
+    );
+
+    const previous = server;
+    const httpServer = server.httpServer;
+    server = await server.restart({
+      root,
+      port,
+      silent: true,
+      middlewares: [
+        (_req, res) => {
+          res.end('from new config');
+        },
+      ],
+    });
+    expect(server).not.toBe(previous);
+    expect(server.httpServer).toBe(httpServer);
+    expect(previous.httpServer).toBeNull();
+    expect(await message).toEqual({ type: 'full-reload' });
+    expect(ws.readyState).toBe(WebSocket.OPEN);
+    expect(await (await fetch(`http://localhost:${port}/`)).text()).toBe('from new config');
+
+    // The adopted client is the new server's: a second restart still reaches it
+    const again = new Promise<{ type: string }>((resolve) =>
+      ws.once('message', (data) => resolve(JSON.parse(data.toString())))
+    );
+    server = await server.restart({ root, port, silent: true });
+    expect(await again).toEqual({ type: 'full-reload' });
+    expect(await (await fetch(`http://localhost:${port}/`)).text()).toContain('Restart');
+    ws.close();
+  });
+
+  it('lets mock bundles in progress finish before the new server starts', async () => {
+    await mkdir(join(root, 'mock/api'), { recursive: true });
+    await writeFile(join(root, 'mock/api/ping.ts'), "export default { pong: 'v1' };");
+    server = await server.restart({ root, port, silent: true, mock: 'mock' });
+    const pending = fetch(`http://localhost:${port}/api/ping`);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    server = await server.restart({ root, port, silent: true, mock: 'mock' });
+    expect(await (await pending).json()).toEqual({ pong: 'v1' });
+    expect(await readdir(join(root, 'node_modules/.mini-dev/mocks'))).toEqual([]);
+
+    await writeFile(join(root, 'mock/api/ping.ts'), "export default { pong: 'v2' };");
+    let body: unknown;
+    for (let i = 0; i < 40 && (body as { pong?: string })?.pong !== 'v2'; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      body = await (await fetch(`http://localhost:${port}/api/ping`)).json();
+    }
+    expect(body).toEqual({ pong: 'v2' });
+  });
+
+  it('starts on a new socket when the address changes', async () => {
+    const httpServer = server.httpServer;
+    server = await server.restart({ root, port: port - 1, silent: true });
+    expect(server.httpServer).not.toBe(httpServer);
+    expect((await fetch(`http://localhost:${port - 1}/`)).status).toBe(200);
+    await expect(fetch(`http://localhost:${port}/`)).rejects.toThrow();
+  });
+});
+
 describe('load-env', () => {
   it('parseEnvString parses KEY=value and strips quotes', () => {
     const out = parseEnvString('A=1\nB="two"\n# comment\nC=\n');
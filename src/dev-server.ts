@@ -1,19 +1,60 @@
-import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { createServer as createHttpsServer } from 'node:https';
 import { networkInterfaces } from 'node:os';
+import type { AddressInfo } from 'node:net';
 import { readFile, readdir } from 'node:fs/promises';
 import { existsSync, statSync, readFileSync, realpathSync } from 'node:fs';
-import { join, extname, dirname, resolve, relative } from 'node:path';
+import { join, extname, dirname, resolve, relative, isAbsolute, sep, basename } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { createRequire } from 'node:module';
+import { createHash } from 'node:crypto';
+import { isDeepStrictEqual } from 'node:util';
+import type { Duplex } from 'node:stream';
 
 const require = createRequire(import.meta.url);
 const pkg = require(join(dirname(fileURLToPath(import.meta.url)), '../package.json'));
-import { WebSocketServer, type WebSocket as WSWebSocket } from 'ws';
+import { WebSocketServer, type RawData, type WebSocket as WSWebSocket } from 'ws';
 import chokidar, { type FSWatcher } from 'chokidar';
-import { transform } from 'esbuild';
+import { transform, type TsconfigRaw } from 'esbuild';
 import { getHMRClient } from './hmr-client.js';
 import { loadPublicEnv } from './load-env.js';
-import type { DevServerOptions, ModuleInfo, ProxyRule } from './types.js';
+import { PluginContainer, sortPlugins } from './plugin-container.js';
+import { ModuleGraph, virtualIdToUrl, urlToVirtualId } from './module-graph.js';
+import { prepareError } from './error.js';
+import { parseImports } from './import-lexer.js';
+import { applyEdits, type Edit } from './source-map.js';
+import { TransformCache } from './transform-cache.js';
+import { resolveHttpsOptions } from './https.js';
+import { listen, urlHost } from './listen.js';
+import { normalizeMiddlewares, runMiddlewares } from './middleware.js';
+import { MockApi } from './mock.js';
+import { normalizeSpa, isHistoryFallback, findFallbackIndex } from './spa.js';
+import { normalizeProxy, findProxyRule, proxyRequest, proxyUpgrade, sendProxyError } from './proxy.js';
+import { DepOptimizer, DEPS_URL_PREFIX } from './optimizer.js';
+import {
+  DEFAULT_CONDITIONS,
+  findPackageScope,
+  readPackageJson,
+  resolvePackageFile,
+  resolvePackageImports,
+  type PackageJson,
+} from './resolve.js';
+import { cssToModule, compileCssModule, wrapCssImport, isExternalCssUrl, CSS_IMPORT_OR_URL_RE } from './css.js';
+import { findTsconfig, loadTsconfig, matchTsconfigPaths, clearTsconfigCache } from './tsconfig.js';
+import type {
+  AliasEntry,
+  DevServerOptions,
+  EsbuildTransformOptions,
+  HMRErrorPayload,
+  HMRMessage,
+  HMRUpdate,
+  ModuleInfo,
+  Plugin,
+  ProxyRule,
+  Middleware,
+  SpaOptions,
+  ResolveOptions,
+} from './types.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
@@ -31,6 +72,9 @@ const MIME_TYPES: Record<string, string> = {
   '.mjs': 'application/javascript',
   '.ts': 'application/javascript',
   '.tsx': 'application/javascript',
+  '.jsx': 'application/javascript',
+  '.mts': 'application/javascript',
+  '.cts': 'application/javascript',
   '.json': 'application/json',
   '.css': 'text/css',
   '.ico': 'image/x-icon',
@@ -46,60 +90,267 @@ const MIME_TYPES: Record<string, string> = {
   '.webmanifest': 'application/manifest+json',
 };
 
+/** Script extensions transpiled by the built-in esbuild plugin, with their loader. */
+const SCRIPT_LOADERS: Record<string, 'ts' | 'tsx' | 'js' | 'jsx'> = {
+  '.ts': 'ts',
+  '.tsx': 'tsx',
+  '.mts': 'ts',
+  '.cts': 'ts',
+  '.js': 'js',
+  '.jsx': 'jsx',
+  '.mjs': 'js',
+};
+
+const SCRIPT_EXTS = Object.keys(SCRIPT_LOADERS);
+
+/** Extensions tried, in order, for extensionless and directory (`/index`) imports. */
+const DEFAULT_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js', '.mjs', '.mts'];
+
+/** tsconfig compilerOptions that esbuild honors when transpiling a single file. */
+const TRANSPILE_OPTIONS = [
+  'alwaysStrict',
+  'experimentalDecorators',
+  'importsNotUsedAsValues',
+  'jsx',
+  'jsxFactory',
+  'jsxFragmentFactory',
+  'jsxImportSource',
+  'preserveValueImports',
+  'strict',
+  'target',
+  'useDefineForClassFields',
+  'verbatimModuleSyntax',
+] as const;
+
+const ENV_ID = '/@env';
+/** Stands in for files the `browser` field of a package maps to `false` */
+const EMPTY_ID = '\0mini-dev:empty';
+
+function appendQuery(url: string, query: string): string {
+  return url + (url.includes('?') ? '&' : '?') + query;
+}
+
+/** Drop the internal `t` (cache-bust) and `import` markers from a query string. */
+function cleanQuery(search: string): string {
+  return search
+    .split('&')
+    .filter((part) => part && part !== 'import' && part !== 'import=' && !part.startsWith('t='))
+    .join('&');
+}
+
+/** `react-dom/client` → `react-dom`, `@scope/pkg/sub` → `@scope/pkg`. */
+function packageNameOf(specifier: string): string {
+  return specifier.split('/').slice(0, specifier.startsWith('@') ? 2 : 1).join('/');
+}
+
+/** Alias entries from either form of `resolve.alias`; object keys are tried longest first. */
+function normalizeAlias(alias: ResolveOptions['alias']): AliasEntry[] {
+  if (!alias) return [];
+  if (Array.isArray(alias)) return alias;
+  return Object.entries(alias)
+    .sort(([a], [b]) => b.length - a.length)
+    .map(([find, replacement]) => ({ find, replacement }));
+}
+
+/** Package or `#imports` specifier, as opposed to a path, URL or `scheme:` id. */
+function isBareSpecifier(specifier: string): boolean {
+  return /^[\w@#][^:\s]*$/.test(specifier);
+}
+
+function isImportRequest(search: string): boolean {
+  return search.split('&').some((part) => part === 'import' || part === 'import=');
+}
+
 /**
  * Mini-DX Dev Server with HMR support.
  * Serves TypeScript/TSX/CSS/HTML with on-the-fly transpilation.
  */
 export class DevServer {
+  /** As passed in, to tell whether `restart()` can keep the socket */
+  private options: DevServerOptions;
   private root: string;
   private port: number;
+  private strictPort: boolean;
   private host: string;
   private verbose: boolean;
   private ignored: string | RegExp | (string | RegExp)[];
   private label: string;
   private silent: boolean;
   private open: boolean;
+  private overlay: boolean;
   private base: string;
   private basePrefix: string;
   private proxyRules: ProxyRule[];
+  private middlewares: { pre: Middleware[]; post: Middleware[] };
+  /** `null` when the `mock` option is not set */
+  private mockApi: MockApi | null;
+  /** `null` when the history API fallback is off */
+  private spa: SpaOptions | null;
   private envPrefix: string | null;
   private publicEnv: Record<string, string> = {};
-  private moduleGraph = new Map<string, ModuleInfo>();
+  private moduleGraph = new ModuleGraph();
   private clients = new Set<WSWebSocket>();
-  private httpServer: ReturnType<typeof createServer> | null = null;
+  /** Module ids each client reported as loaded, so updates only reach pages that use them */
+  private clientModules = new Map<WSWebSocket, Set<string>>();
+  /** Removes the listeners this server put on a client, when `restart()` hands it over */
+  private detachClients = new Map<WSWebSocket, () => void>();
+  /**
+   * Paths whose last request failed, with the module id and error. Pages that import the module
+   * get the error when they report their modules (the first load fails before the client
+   * connects) and reload once the file changes.
+   */
+  private failedPaths = new Map<string, { id: string; err: HMRErrorPayload }>();
+  /** Stylesheet URL path → files inlined into it through `@import` */
+  private cssDeps = new Map<string, Set<string>>();
+  private https: DevServerOptions['https'];
+  /** The underlying HTTP(S) server, available once `start()` was called; other libraries can attach to it */
+  httpServer: Server | null = null;
   private wss: WebSocketServer | null = null;
+  /** Client sockets of proxied WebSocket connections, closed on `stop()` */
+  private proxySockets = new Set<Duplex>();
   private watcher: FSWatcher | null = null;
+  private pluginContainer: PluginContainer;
+  private depOptimizer: DepOptimizer;
+  /** Conditions matched in package.json `exports` / `imports` */
+  private conditions: Set<string>;
+  private aliases: AliasEntry[];
+  /** Extensions probed for extensionless imports */
+  private extensions: string[];
+  private esbuildOptions: EsbuildTransformOptions;
+  /** `null` when caching is disabled */
+  private transformCache: TransformCache | null;
+  /** Module requests answered with the module graph's copy, counted as cache hits */
+  private modulesReused = 0;
+  /** Bare imports left as written because no package provides them, warned about once each */
+  private unresolvedImports = new Set<string>();
 
   constructor(options: DevServerOptions = {}) {
+    this.options = options;
     this.root = resolve(options.root ?? process.cwd());
     this.port = options.port ?? 3000;
+    this.strictPort = options.strictPort ?? false;
     this.host = options.host ?? '127.0.0.1';
     this.verbose = options.verbose ?? false;
     this.ignored = options.ignored ?? /node_modules/;
     this.label = options.label ?? 'MINI-DEV';
     this.silent = options.silent ?? process.env.CI === 'true';
     this.open = options.open ?? false;
+    this.overlay = options.overlay ?? true;
     const rawBase = options.base ?? '';
     this.base = rawBase ? (rawBase.startsWith('/') ? rawBase : '/' + rawBase).replace(/\/?$/, '/') : '';
     this.basePrefix = this.base ? this.base.replace(/\/$/, '') : '';
-    this.proxyRules = this.normalizeProxy(options.proxy);
+    this.https = options.https;
+    this.proxyRules = normalizeProxy(options.proxy);
+    this.middlewares = normalizeMiddlewares(options.middlewares);
+    const mock = typeof options.mock === 'string' ? { dir: options.mock } : options.mock;
+    this.mockApi = mock
+      ? new MockApi(resolve(this.root, mock.dir), join(this.root, 'node_modules', '.mini-dev', 'mocks'), mock.delay ?? 0)
+      : null;
+    this.spa = normalizeSpa(options.spa);
     this.envPrefix =
       options.env === false || options.env === undefined
         ? null
         : (options.env?.prefix ?? 'PUBLIC_');
+    this.conditions = new Set(options.resolve?.conditions ?? DEFAULT_CONDITIONS);
+    this.aliases = normalizeAlias(options.resolve?.alias);
+    this.extensions = options.resolve?.extensions ?? DEFAULT_EXTENSIONS;
+    this.esbuildOptions = options.esbuild ?? {};
+    this.pluginContainer = new PluginContainer(sortPlugins(options.plugins ?? [], this.createBuiltinPlugins()));
+    this.transformCache =
+      options.cache === false
+        ? null
+        : new TransformCache(
+            options.cache?.persist ? join(this.root, 'node_modules', '.mini-dev', 'transforms') : null,
+            // A plugin's transform code is included too, so editing an inline plugin takes effect
+            JSON.stringify([
+              pkg.version,
+              this.esbuildOptions,
+              this.pluginContainer.plugins.map((p) => [p.name, p.cacheKey ?? null, String(p.transform ?? '')]),
+            ])
+          );
+    this.depOptimizer = new DepOptimizer(
+      this.root,
+      options.optimizeDeps ?? {},
+      [...this.conditions],
+      pkg.version,
+      (message) => {
+        if (this.silent) return;
+        const c = { dim: '\x1b[2m', reset: '\x1b[0m' };
+        console.log(`${c.dim}[${this.label}] [deps]${c.reset} ${message}`);
+      },
+      // Pages may hold chunks from the previous bundles; reload so every module shares one copy
+      () => {
+        this.moduleGraph.invalidateAll();
+        this.sendHMR([...this.clients], { type: 'full-reload' });
+      }
+    );
   }
 
-  private normalizeProxy(proxy: DevServerOptions['proxy']): ProxyRule[] {
-    if (!proxy) return [];
-    const entries = Array.isArray(proxy)
-      ? proxy.map(({ path, target }) => ({ path, target }))
-      : Object.entries(proxy).map(([path, target]) => ({ path, target }));
-    const rules: ProxyRule[] = entries.map(({ path, target }) => ({
-      path: path.startsWith('/') ? path : '/' + path,
-      target: target.replace(/\/$/, ''),
-    }));
-    rules.sort((a, b) => b.path.length - a.path.length);
-    return rules;
+  /**
+   * Built-in behavior expressed as plugins so user plugins can run before (`enforce: 'pre'`)
+   * or after it.
+   */
+  private createBuiltinPlugins(): Plugin[] {
+    return [
+      {
+        name: 'mini-dev:env',
+        load: async (id) => {
+          if (id !== ENV_ID || this.envPrefix === null) return null;
+          if (Object.keys(this.publicEnv).length === 0) {
+            this.publicEnv = await loadPublicEnv(this.root, this.envPrefix);
+          }
+          return `window.__MINI_DEV_ENV__=${JSON.stringify(this.publicEnv)};`;
+        },
+      },
+      {
+        name: 'mini-dev:resolve',
+        resolveId: async (source, importer) => {
+          const importerPath = importer.split('?')[0];
+          const aliased = this.applyAlias(source) ?? this.applyTsconfigPaths(source, this.importerDir(importerPath));
+          if (aliased?.startsWith('/')) return this.resolveImportPath(aliased, '/', importerPath);
+          if (aliased) source = aliased;
+          if (source.startsWith('.') || source.startsWith('/')) {
+            const importerDir = importerPath.startsWith('/') ? '/' + dirname(importerPath.slice(1)) : '/';
+            return this.resolveImportPath(source, importerDir, importerPath);
+          }
+          try {
+            if (source.startsWith('#')) return await this.resolveSubpathImport(source, importer);
+            return await this.resolvePackageImport(source);
+          } catch (err) {
+            throw new Error(`Failed to resolve import "${source}" from "${importer}": ${(err as Error).message}`);
+          }
+        },
+        load: (id) => (id === EMPTY_ID ? 'export default {};' : null),
+      },
+      {
+        name: 'mini-dev:esbuild',
+        transform: async (code, id) => {
+          const ext = extname(id.split('?')[0]);
+          if (!SCRIPT_EXTS.includes(ext)) return null;
+          const { jsx, jsxFactory, jsxFragment, jsxImportSource, target, define } = this.esbuildOptions;
+          // esbuild prefers tsconfigRaw over its own JSX options, so drop the overridden keys
+          const compilerOptions = { ...this.transpileOptions(id) };
+          if (jsx) delete compilerOptions.jsx;
+          if (jsxFactory) delete compilerOptions.jsxFactory;
+          if (jsxFragment) delete compilerOptions.jsxFragmentFactory;
+          if (jsxImportSource) delete compilerOptions.jsxImportSource;
+          const result = await transform(code, {
+            loader: SCRIPT_LOADERS[ext],
+            sourcemap: 'inline',
+            sourcefile: id,
+            target: target ?? 'esnext',
+            format: 'esm',
+            tsconfigRaw: { compilerOptions },
+            ...(jsx && { jsx }),
+            ...(jsxFactory && { jsxFactory }),
+            ...(jsxFragment && { jsxFragment }),
+            ...(jsxImportSource && { jsxImportSource }),
+            ...(define && { define }),
+          });
+          return result.code;
+        },
+      },
+    ];
   }
 
   private getNetworkUrl(): string | null {
@@ -108,11 +359,15 @@ export class DevServer {
     for (const addrs of Object.values(nets ?? {})) {
       for (const addr of addrs ?? []) {
         if (addr.family === 'IPv4' && !addr.internal) {
-          return `http://${addr.address}:${this.port}/`;
+          return `${this.protocol}://${addr.address}:${this.port}/`;
         }
       }
     }
-    return `http://0.0.0.0:${this.port}/`;
+    return `${this.protocol}://0.0.0.0:${this.port}/`;
+  }
+
+  private get protocol(): 'http' | 'https' {
+    return this.https ? 'https' : 'http';
   }
 
   private log(...args: unknown[]): void {
@@ -124,75 +379,194 @@ export class DevServer {
   /**
    * Start the dev server.
    */
-  async start(): Promise<{ port: number; url: string }> {
-    this.httpServer = createServer(this.handleRequest.bind(this));
+  async start(): Promise<{ port: number; host: string; url: string }> {
+    const handler = this.handleRequest.bind(this);
+    this.httpServer = this.https
+      ? createHttpsServer(await resolveHttpsOptions(this.https, this.root, this.host), handler)
+      : createServer(handler);
 
-    this.wss = new WebSocketServer({ server: this.httpServer });
-    this.wss.on('connection', (ws) => {
-      this.clients.add(ws);
-      if (!this.silent) {
-        const c = { dim: '\x1b[2m', green: '\x1b[32m', reset: '\x1b[0m' };
-        console.log(`${c.dim}[${this.label}] [HMR]${c.reset} ${c.green}client connected${c.reset} (${this.clients.size} total)`);
-      }
-      ws.on('close', () => {
-        this.clients.delete(ws);
-        this.log('client disconnected');
-      });
-    });
+    this.wss = new WebSocketServer({ noServer: true });
+    this.httpServer.on('upgrade', this.handleUpgrade.bind(this));
+    this.wss.on('connection', this.handleConnection.bind(this));
+
+    await this.startServices();
 
+    const startTime = Date.now();
+    const requestedPort = this.port;
+    let address: AddressInfo;
+    try {
+      address = await listen(this.httpServer, this.port, this.host, this.strictPort);
+    } catch (err) {
+      // The watcher and plugins are already running; leave nothing behind
+      await this.stop();
+      throw err;
+    }
+    const readyMs = Date.now() - startTime;
+    this.port = address.port;
+    const localUrl = `${this.protocol}://${urlHost(address.address)}:${this.port}${this.base}`;
+    const networkUrl = this.getNetworkUrl();
+    const c = {
+      dim: '\x1b[2m',
+      cyan: '\x1b[36m',
+      green: '\x1b[32m',
+      yellow: '\x1b[33m',
+      bold: '\x1b[1m',
+      reset: '\x1b[0m',
+    };
+    const version = pkg.version ?? '0.0.1';
+    if (!this.silent && requestedPort !== 0 && this.port !== requestedPort) {
+      console.log(`${c.dim}[${this.label}]${c.reset} ${c.yellow}Port ${requestedPort} is in use, using ${this.port} instead${c.reset}`);
+    }
+    let lines =
+      `\n${c.bold}${c.cyan}  ${this.label}${c.reset} v${version} ${c.dim}ready in ${readyMs}ms${c.reset}\n\n` +
+      `${c.green}  ➜${c.reset}  ${c.dim}Local:${c.reset}   ${localUrl}\n`;
+    if (networkUrl) {
+      lines += `${c.green}  ➜${c.reset}  ${c.dim}Network:${c.reset} ${networkUrl}\n`;
+    } else {
+      lines += `${c.green}  ➜${c.reset}  ${c.dim}Network:${c.reset} use --host to expose\n`;
+    }
+    console.log(lines);
+    if (this.open) {
+      import('open').then(({ default: open }) => open(localUrl)).catch(() => {});
+    }
+    return { port: this.port, host: address.address, url: localUrl };
+  }
+
+  /**
+   * Apply new options (e.g. after the config file changed) and resolve with the server that
+   * now serves them. The HTTP server and HMR connections carry over to it: the watcher, dependency
+   * optimizer and plugins start afresh, then connected pages reload. A different port, host or
+   * `https` needs a new socket, so the server is stopped and started again instead.
+   */
+  async restart(options: DevServerOptions): Promise<DevServer> {
+    const { httpServer, wss } = this;
+    const sameAddress =
+      options.port === this.options.port &&
+      options.host === this.options.host &&
+      isDeepStrictEqual(options.https, this.options.https);
+    if (!httpServer || !wss || !sameAddress) {
+      await this.stop();
+      const next = new DevServer(options);
+      await next.start();
+      return next;
+    }
+
+    // The new server's optimizer and mocks write to the same directories
+    await this.stopServices();
+    const next = new DevServer(options);
+    // Listeners plugins attached to the old server go too; configureServer attaches them again
+    httpServer.removeAllListeners('request');
+    httpServer.removeAllListeners('upgrade');
+    wss.removeAllListeners('connection');
+    next.httpServer = httpServer;
+    next.wss = wss;
+    next.port = this.port;
+    httpServer.on('request', next.handleRequest.bind(next));
+    httpServer.on('upgrade', next.handleUpgrade.bind(next));
+    wss.on('connection', next.handleConnection.bind(next));
+    for (const ws of this.clients) {
+      this.detachClients.get(ws)?.();
+      next.addClient(ws);
+    }
+    for (const socket of this.proxySockets) next.proxySockets.add(socket);
+    this.httpServer = null;
+    this.wss = null;
+    this.clients.clear();
+    this.clientModules.clear();
+    this.detachClients.clear();
+    this.proxySockets.clear();
+
+    await next.startServices();
+    if (!next.silent) {
+      const c = { dim: '\x1b[2m', green: '\x1b[32m', reset: '\x1b[0m' };
+      console.log(`${c.dim}[${next.label}]${c.reset} ${c.green}server restarted${c.reset}`);
+    }
+    next.sendHMR([...next.clients], { type: 'full-reload' });
+    return next;
+  }
+
+  /** Watcher, dependency optimizer and plugins; everything but the HTTP and WebSocket servers. */
+  private async startServices(): Promise<void> {
     this.watcher = chokidar.watch(this.root, {
       ignored: this.ignored,
       ignoreInitial: true,
     });
     this.watcher.on('change', this.handleFileChange.bind(this));
-
-    const startTime = Date.now();
-    return new Promise((resolve) => {
-      this.httpServer!.listen(this.port, this.host, () => {
-        const readyMs = Date.now() - startTime;
-        const localUrl = `http://localhost:${this.port}${this.base}`;
-        const networkUrl = this.getNetworkUrl();
-        const c = {
-          dim: '\x1b[2m',
-          cyan: '\x1b[36m',
-          green: '\x1b[32m',
-          bold: '\x1b[1m',
-          reset: '\x1b[0m',
-        };
-        const version = pkg.version ?? '0.0.1';
-        let lines =
-          `\n${c.bold}${c.cyan}  ${this.label}${c.reset} v${version} ${c.dim}ready in ${readyMs}ms${c.reset}\n\n` +
-          `${c.green}  ➜${c.reset}  ${c.dim}Local:${c.reset}   ${localUrl}\n`;
-        if (networkUrl) {
-          lines += `${c.green}  ➜${c.reset}  ${c.dim}Network:${c.reset} ${networkUrl}\n`;
-        } else {
-          lines += `${c.green}  ➜${c.reset}  ${c.dim}Network:${c.reset} use --host to expose\n`;
-        }
-        console.log(lines);
-        if (this.open) {
-          import('open').then(({ default: open }) => open(localUrl)).catch(() => {});
-        }
-        resolve({ port: this.port, url: localUrl });
+    // New or deleted files can change what imports resolve to
+    for (const event of ['add', 'unlink'] as const) {
+      this.watcher.on(event, (file) => {
+        if (/^tsconfig.*\.json$/.test(basename(file))) clearTsconfigCache();
+        this.moduleGraph.invalidateAll();
+        this.mockApi?.handleChange(file);
       });
+    }
+    if (this.mockApi && relative(this.root, this.mockApi.dir).startsWith('..')) {
+      this.watcher.add(this.mockApi.dir);
+    }
+
+    await this.depOptimizer.init();
+
+    await this.pluginContainer.configureServer({
+      root: this.root,
+      base: this.base,
+      httpServer: this.httpServer!,
+      wss: this.wss!,
+      watcher: this.watcher,
+      send: (message) => this.broadcast(message),
+      use: (middleware, placement) => this.use(middleware, placement),
     });
   }
 
+  private handleConnection(ws: WSWebSocket): void {
+    this.addClient(ws);
+    if (!this.silent) {
+      const c = { dim: '\x1b[2m', green: '\x1b[32m', reset: '\x1b[0m' };
+      console.log(`${c.dim}[${this.label}] [HMR]${c.reset} ${c.green}client connected${c.reset} (${this.clients.size} total)`);
+    }
+  }
+
+  private addClient(ws: WSWebSocket): void {
+    const onMessage = (data: RawData) => this.handleClientMessage(ws, data.toString());
+    const onClose = () => {
+      this.clients.delete(ws);
+      this.clientModules.delete(ws);
+      this.detachClients.delete(ws);
+      this.log('client disconnected');
+    };
+    this.clients.add(ws);
+    ws.on('message', onMessage);
+    ws.on('close', onClose);
+    this.detachClients.set(ws, () => {
+      ws.off('message', onMessage);
+      ws.off('close', onClose);
+    });
+  }
+
+  /** Transform cache counters: modules served or transformed from cache vs. transformed anew. */
+  getCacheStats(): { hits: number; misses: number } {
+    const { hits, misses } = this.transformCache?.stats() ?? { hits: 0, misses: 0 };
+    return { hits: hits + this.modulesReused, misses };
+  }
+
   /**
    * Stop the dev server.
    */
   async stop(): Promise<void> {
-    if (this.watcher) {
-      await this.watcher.close();
-      this.watcher = null;
-    }
+    await this.stopServices();
     if (this.wss) {
       for (const client of this.clients) {
         client.close();
       }
       this.clients.clear();
+      this.clientModules.clear();
+      this.detachClients.clear();
       this.wss.close();
       this.wss = null;
     }
+    for (const socket of this.proxySockets) {
+      socket.destroy();
+    }
+    this.proxySockets.clear();
     if (this.httpServer) {
       return new Promise((resolve) => {
         this.httpServer!.close(() => {
@@ -203,7 +577,44 @@ export class DevServer {
     }
   }
 
+  /** Close the watcher and wait for dependency and mock bundles in progress. */
+  private async stopServices(): Promise<void> {
+    await this.watcher?.close();
+    this.watcher = null;
+    await Promise.all([this.depOptimizer.close(), this.mockApi?.close()]);
+  }
+
+  /**
+   * Add a Connect-style handler. `'pre'` handlers run before the built-in ones, `'post'` handlers
+   * for requests nothing else served (before the 404 page).
+   */
+  use(middleware: Middleware, placement: 'pre' | 'post' = 'pre'): this {
+    this.middlewares[placement].push(middleware);
+    return this;
+  }
+
   private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      await this.serveRequest(req, res);
+    } catch (error) {
+      // Failures outside module serving, e.g. a pre-bundled dependency removed by re-optimization
+      const status = error instanceof URIError ? 400 : 500;
+      const message = error instanceof Error ? error.message : String(error);
+      if (!this.silent && status === 500) {
+        const c = { dim: '\x1b[2m', red: '\x1b[31m', reset: '\x1b[0m' };
+        console.error(`${c.dim}[${this.label}]${c.reset} ${c.red}error${c.reset} ${req.url}: ${message}`);
+      }
+      if (!res.headersSent) {
+        res.writeHead(status, { 'Content-Type': 'text/plain' });
+        res.end(status === 400 ? 'Bad Request' : message);
+      } else {
+        res.destroy();
+      }
+    }
+  }
+
+  private async serveRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (await this.applyMiddlewares(this.middlewares.pre, req, res)) return;
     let url = req.url ?? '/';
     const [pathname, search] = url.split('?');
 
@@ -235,6 +646,8 @@ export class DevServer {
       return this.redirect(res, this.base + 'index.html');
     }
 
+    if (this.mockApi && (await this.serveMock(pathnameForLookup, search ?? '', req, res))) return;
+
     const proxyHandled = await this.tryProxy(pathnameForLookup, search ?? '', req, res);
     if (proxyHandled) return;
 
@@ -245,24 +658,43 @@ export class DevServer {
       const served = await this.serveNodeModule(pathnameForLookup, res);
       if (served) return;
     }
+    if (pathnameForLookup.startsWith(DEPS_URL_PREFIX)) {
+      return this.serveOptimizedDep(pathnameForLookup, search ?? '', res);
+    }
 
     try {
       const ext = extname(pathnameForLookup);
 
       if (ext === '.html') {
         await this.serveHtml(pathnameForLookup, res);
-      } else if (ext === '.ts' || ext === '.tsx') {
-        await this.serveTypeScript(pathnameForLookup, res);
+      } else if (
+        pathnameForLookup.startsWith('/@id/') ||
+        SCRIPT_EXTS.includes(ext) ||
+        isImportRequest(search ?? '')
+      ) {
+        await this.serveModule(pathnameForLookup, search ?? '', req, res);
       } else if (ext === '.css') {
         await this.serveCss(pathnameForLookup, res);
       } else {
         await this.serveStatic(pathnameForLookup, res);
       }
+      this.failedPaths.delete(pathnameForLookup);
     } catch (error) {
-      const msg = error instanceof Error ? error.message : String(error);
-      this.log('Error serving', pathnameForLookup, msg);
+      const err = prepareError(error, this.root, pathnameForLookup);
+      if (!this.silent) {
+        const c = { dim: '\x1b[2m', red: '\x1b[31m', reset: '\x1b[0m' };
+        const where = err.line ? `${pathnameForLookup}:${err.line}:${err.column}` : pathnameForLookup;
+        const plugin = err.plugin ? ` [plugin ${err.plugin}]` : '';
+        console.error(
+          `${c.dim}[${this.label}]${c.reset} ${c.red}error${c.reset}${plugin} ${where}: ${err.message}` +
+            (err.frame ? '\n' + err.frame : '')
+        );
+      }
+      const id = this.urlToModuleId(pathnameForLookup, search ?? '');
+      this.failedPaths.set(pathnameForLookup, { id, err });
+      this.sendHMR(this.clientsImporting(id), { type: 'error', err });
       res.writeHead(500, { 'Content-Type': 'text/plain' });
-      res.end(msg);
+      res.end(err.message + (err.frame ? '\n\n' + err.frame : ''));
     }
   }
 
@@ -277,52 +709,66 @@ export class DevServer {
     req: IncomingMessage,
     res: ServerResponse
   ): Promise<boolean> {
-    const rule = this.proxyRules.find(
-      (r) => pathnameForLookup === r.path || pathnameForLookup.startsWith(r.path + '/')
-    );
+    const rule = findProxyRule(this.proxyRules, pathnameForLookup);
     if (!rule) return false;
 
-    const proxyUrl = rule.target + pathnameForLookup + (search ? '?' + search : '');
-    const headers: Record<string, string> = {};
-    for (const [key, value] of Object.entries(req.headers)) {
-      if (value === undefined) continue;
-      const k = key.toLowerCase();
-      if (k === 'host' || k === 'connection') continue;
-      headers[key] = Array.isArray(value) ? value.join(', ') : value;
+    try {
+      const status = await proxyRequest(rule, pathnameForLookup, search, req, res);
+      this.log('Proxy', req.method, pathnameForLookup, '->', status, rule.target);
+    } catch (err) {
+      const status = sendProxyError(res, err);
+      this.log('Proxy error', req.method, pathnameForLookup, '->', status, err);
     }
+    return true;
+  }
 
+  private async serveMock(
+    pathnameForLookup: string,
+    search: string,
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<boolean> {
     try {
-      const opts: RequestInit = {
-        method: req.method ?? 'GET',
-        headers,
-        body: req.method !== 'GET' && req.method !== 'HEAD' ? (req as unknown as ReadableStream) : undefined,
-      };
-      const proxyRes = await fetch(proxyUrl, opts);
-      const resHeaders: Record<string, string | string[]> = {};
-      proxyRes.headers.forEach((v, k) => {
-        const lower = k.toLowerCase();
-        if (lower !== 'transfer-encoding') resHeaders[k] = v;
-      });
-      res.writeHead(proxyRes.status, resHeaders);
-      const buf = await proxyRes.arrayBuffer();
-      res.end(Buffer.from(buf));
-      this.log('Proxy', req.method, pathnameForLookup, '->', proxyRes.status, rule.target);
-      return true;
-    } catch (err) {
-      this.log('Proxy error', pathnameForLookup, err);
-      res.writeHead(502, { 'Content-Type': 'text/plain' });
-      res.end('Bad Gateway');
+      const handled = await this.mockApi!.handle(req, res, pathnameForLookup, search);
+      if (handled) this.log('Mock', req.method, pathnameForLookup, '->', res.statusCode);
+      return handled;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (!this.silent) {
+        const c = { dim: '\x1b[2m', red: '\x1b[31m', reset: '\x1b[0m' };
+        console.error(`${c.dim}[${this.label}]${c.reset} ${c.red}error${c.reset} [mock] ${pathnameForLookup}: ${message}`);
+      }
+      if (!res.headersSent) {
+        res.writeHead(500, { 'Content-Type': 'text/plain' });
+      }
+      res.end(message);
       return true;
     }
   }
 
+  /** WebSocket upgrades: proxy rules with `ws: true` first, everything else is the HMR socket. */
+  private handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): void {
+    const [pathname, search] = (req.url ?? '/').split('?');
+    const pathnameForLookup =
+      this.basePrefix && pathname.startsWith(this.basePrefix) ? pathname.slice(this.basePrefix.length) || '/' : pathname;
+    const rule = findProxyRule(this.proxyRules, pathnameForLookup);
+    if (rule?.ws) {
+      this.log('Proxy', 'WS', pathnameForLookup, '->', rule.target);
+      this.proxySockets.add(socket);
+      socket.on('close', () => this.proxySockets.delete(socket));
+      proxyUpgrade(rule, pathnameForLookup, search ?? '', req, socket, head);
+      return;
+    }
+    this.wss!.handleUpgrade(req, socket, head, (ws) => this.wss!.emit('connection', ws, req));
+  }
+
   private findPackageDir(specifier: string): string | null {
     const parts = specifier.startsWith('@') ? specifier.split('/') : [specifier.split('/')[0]];
     if (parts.length === 0 || !parts[0]) return null;
     const packageName = parts.join('/');
 
     // 1) Resolve from node_modules (walk up to find node_modules/<packageName>)
-    for (let dir: string | null = this.root; dir; dir = dirname(dir)) {
+    for (let dir: string | null = this.root; dir; dir = dirname(dir) === dir ? null : dirname(dir)) {
       const nm = join(dir, 'node_modules');
       if (!existsSync(nm)) continue;
       const pkgDir = join(nm, ...parts);
@@ -338,7 +784,7 @@ export class DevServer {
     // 2) Fallback: when app lives inside the package (e.g. example/ in this repo),
     //    the package has no node_modules copy of itself; treat an ancestor dir as the package
     //    if its package.json has "name" === packageName.
-    for (let dir: string | null = this.root; dir; dir = dirname(dir)) {
+    for (let dir: string | null = this.root; dir; dir = dirname(dir) === dir ? null : dirname(dir)) {
       const pkgJsonPath = join(dir, 'package.json');
       if (!existsSync(pkgJsonPath)) continue;
       try {
@@ -351,40 +797,58 @@ export class DevServer {
     return null;
   }
 
+  /**
+   * Resolve a bare specifier to a file in an installed package (`exports`, `browser`, `module`,
+   * `main`). Returns `null` when the package is not installed; throws when it is but the
+   * subpath cannot be resolved.
+   */
   private resolveBareSpecifier(
     specifier: string,
-    _importerPath: string
-  ): { packageName: string; entrySubpath: string } | null {
-    try {
-      const slash = specifier.indexOf('/');
-      const packageName = slash > 0 && (specifier.startsWith('@') ? slash > 1 : true)
-        ? specifier.slice(0, slash)
-        : specifier;
-      const exportSubpath = slash > 0 ? specifier.slice(slash + 1) : undefined;
-      const packageDir = this.findPackageDir(packageName);
-      if (!packageDir) return null;
-      const pkgPath = join(packageDir, 'package.json');
-      const pkgJson = readFileSync(pkgPath, 'utf-8');
-      const pkg = JSON.parse(pkgJson) as { main?: string; exports?: Record<string, unknown> };
-      const exp = pkg.exports as Record<string, { import?: string; default?: string }> | undefined;
-      let entry: string | undefined;
-      const exportKey = exportSubpath ? './' + exportSubpath : '.';
-      if (exp?.[exportKey]) {
-        entry = exp[exportKey].import ?? exp[exportKey].default;
-      }
-      if (!entry && !exportSubpath) {
-        if (exp?.['.']) entry = exp['.'].import ?? exp['.'].default;
-        if (!entry) entry = pkg.main;
-      }
-      if (!entry) return null;
-      const entrySubpath = entry.replace(/^\.\//, '').replace(/\\/g, '/');
-      return { packageName, entrySubpath };
-    } catch {
-      return null;
+    conditions = this.conditions
+  ): { packageName: string; entrySubpath: string | false } | null {
+    const packageName = packageNameOf(specifier);
+    const packageDir = this.findPackageDir(packageName);
+    if (!packageDir) return null;
+    const subpath = specifier.slice(packageName.length + 1);
+    const entrySubpath = resolvePackageFile(packageDir, readPackageJson(packageDir), subpath, conditions);
+    return { packageName, entrySubpath };
+  }
+
+  /** Bare import → pre-bundled dependency URL, or the package file under `/@node_modules/`. */
+  private async resolvePackageImport(specifier: string): Promise<string | null> {
+    const bare = this.resolveBareSpecifier(specifier);
+    if (!bare) return null;
+    if (bare.entrySubpath === false) return EMPTY_ID;
+    if (this.isInstalledPackage(bare.packageName)) {
+      const optimized = await this.depOptimizer.resolve(specifier);
+      if (optimized) return optimized;
     }
+    return '/@node_modules/' + bare.packageName + '/' + bare.entrySubpath;
   }
 
-  private async serveNodeModule(pathnameForLookup: string, res: ServerResponse): Promise<boolean> {
+  /** `#internal` import → target from the `imports` field of the importer's package.json. */
+  private async resolveSubpathImport(specifier: string, importer: string): Promise<string | null> {
+    const importerPath = importer.split('?')[0];
+    const importerFile = importerPath.startsWith('/@node_modules/')
+      ? this.nodeModuleFile(importerPath)
+      : importerPath.startsWith('/')
+        ? join(this.root, importerPath.slice(1))
+        : null;
+    const scope = findPackageScope(importerFile ? dirname(importerFile) : this.root);
+    if (!scope) throw new Error('no package.json found');
+    const pkg = readPackageJson(scope);
+    const target = resolvePackageImports(specifier, scope, pkg, this.conditions);
+    if ('bare' in target) return this.resolvePackageImport(target.bare);
+    const file = join(scope, target.file);
+    const fromRoot = relative(this.root, file);
+    if (!fromRoot.startsWith('..') && !/[\\/]node_modules[\\/]/.test(file)) {
+      return '/' + fromRoot.replace(/\\/g, '/');
+    }
+    return '/@node_modules/' + pkg.name + '/' + target.file.replace(/\\/g, '/');
+  }
+
+  /** File on disk for a `/@node_modules/<pkg>/<subpath>` URL, or `null` if missing or outside the package. */
+  private nodeModuleFile(pathnameForLookup: string): string | null {
     const rest = pathnameForLookup.slice('/@node_modules/'.length).replace(/^\//, '');
     const parts = rest.split('/');
     let specifier: string;
@@ -396,16 +860,46 @@ export class DevServer {
       specifier = parts[0];
       subpath = parts.slice(1).join('/');
     } else {
-      return false;
+      return null;
+    }
+    const packageRoot = this.findPackageDir(specifier);
+    if (!packageRoot) return null;
+    const filePath = resolve(packageRoot, subpath);
+    if (relative(packageRoot, filePath).startsWith('..')) {
+      return null;
     }
+    if (!existsSync(filePath) || !statSync(filePath).isFile()) return null;
+    return filePath;
+  }
+
+  /** Whether a package resolves from a node_modules directory (not a linked or ancestor package). */
+  private isInstalledPackage(packageName: string): boolean {
+    const dir = this.findPackageDir(packageName);
+    return dir !== null && /[\\/]node_modules[\\/]/.test(dir);
+  }
+
+  /**
+   * Serve a pre-bundled dependency. Entry URLs carry `?v=<hash>` and chunk names a content hash,
+   * so both can be cached by the browser for good.
+   */
+  private async serveOptimizedDep(pathname: string, search: string, res: ServerResponse): Promise<void> {
+    const file = this.depOptimizer.file(pathname);
+    if (!file) {
+      return this.serve404(pathname, res);
+    }
+    const immutable = /(^|&)v=/.test(search) || pathname.slice(DEPS_URL_PREFIX.length).startsWith('chunk-');
+    const data = await readFile(file);
+    res.writeHead(200, {
+      'Content-Type': MIME_TYPES['.js'],
+      'Cache-Control': immutable ? 'max-age=31536000, immutable' : 'no-cache',
+    });
+    res.end(data);
+  }
+
+  private async serveNodeModule(pathnameForLookup: string, res: ServerResponse): Promise<boolean> {
     try {
-      const packageRoot = this.findPackageDir(specifier);
-      if (!packageRoot) return false;
-      const filePath = resolve(packageRoot, subpath);
-      if (relative(packageRoot, filePath).startsWith('..')) {
-        return false;
-      }
-      if (!existsSync(filePath) || !statSync(filePath).isFile()) return false;
+      const filePath = this.nodeModuleFile(pathnameForLookup);
+      if (!filePath) return false;
       const ext = extname(filePath);
       const contentType = MIME_TYPES[ext] ?? 'application/javascript';
       const data = await readFile(filePath);
@@ -452,7 +946,40 @@ export class DevServer {
     return this.basePrefix ? sorted.map((p) => this.basePrefix + p) : sorted;
   }
 
+  /** Run middleware; errors are logged and answered with 500. Resolves `true` once the request was handled. */
+  private async applyMiddlewares(stack: Middleware[], req: IncomingMessage, res: ServerResponse): Promise<boolean> {
+    try {
+      return await runMiddlewares(stack, req, res);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (!this.silent) {
+        const c = { dim: '\x1b[2m', red: '\x1b[31m', reset: '\x1b[0m' };
+        console.error(`${c.dim}[${this.label}]${c.reset} ${c.red}error${c.reset} [middleware] ${req.url}: ${message}`);
+      }
+      if (!res.headersSent) {
+        res.writeHead(500, { 'Content-Type': 'text/plain' });
+      }
+      res.end(message);
+      return true;
+    }
+  }
+
+  /** Serve the app's index.html (through `serveHtml`) for a client-side route. */
+  private async serveSpaFallback(req: IncomingMessage, res: ServerResponse): Promise<boolean> {
+    const pathname = (req.url ?? '/').split('?')[0];
+    if (this.basePrefix && !pathname.startsWith(this.basePrefix + '/')) return false;
+    const path = pathname.slice(this.basePrefix.length);
+    if (!isHistoryFallback(this.spa!, req, path)) return false;
+    const index = findFallbackIndex(this.spa!, path, (p) => existsSync(join(this.root, p.slice(1))));
+    if (!index) return false;
+    this.log('SPA fallback', path, '->', index);
+    await this.serveHtml(index, res);
+    return true;
+  }
+
   private async serve404(pathname: string, res: ServerResponse): Promise<void> {
+    if (await this.applyMiddlewares(this.middlewares.post, res.req, res)) return;
+    if (this.spa && (await this.serveSpaFallback(res.req, res))) return;
     const paths = await this.listVisitablePaths();
     const listHtml = paths
       .map((p) => `<li><a href="${escapeHtml(p)}">${escapeHtml(p)}</a></li>`)
@@ -509,7 +1036,7 @@ ${listHtml}
   }
 
   private async serveHMRClient(res: ServerResponse): Promise<void> {
-    const code = getHMRClient('ws', this.label, this.silent);
+    const code = getHMRClient('ws', this.label, this.silent, this.overlay);
     res.writeHead(200, {
       'Content-Type': 'application/javascript',
       'Cache-Control': 'no-cache',
@@ -518,11 +1045,7 @@ ${listHtml}
   }
 
   private async serveEnv(res: ServerResponse): Promise<void> {
-    if (Object.keys(this.publicEnv).length === 0 && this.envPrefix !== null) {
-      this.publicEnv = await loadPublicEnv(this.root, this.envPrefix);
-    }
-    const json = JSON.stringify(this.publicEnv);
-    const code = `window.__MINI_DEV_ENV__=${json};`;
+    const code = (await this.pluginContainer.load(ENV_ID)) ?? '';
     res.writeHead(200, {
       'Content-Type': 'application/javascript',
       'Cache-Control': 'no-cache',
@@ -537,8 +1060,9 @@ ${listHtml}
     }
 
     let html = await readFile(filePath, 'utf-8');
+    html = await this.pluginContainer.transformIndexHtml(html, { path: url });
 
-    const hmrScript = `<script type="module" src="${this.base}@hmr-client"></script>`;
+    const hmrScript = `<script type="module" src="${this.base || '/'}@hmr-client"></script>`;
     if (this.base) {
       if (!html.includes('<base')) {
         html = html.replace('<head>', '<head>\n  <base href="' + this.base + '">');
@@ -563,75 +1087,173 @@ ${listHtml}
     res.end(html);
   }
 
-  private async serveTypeScript(url: string, res: ServerResponse): Promise<void> {
-    const cleanPath = url.split('?')[0];
-    const filePath = join(this.root, cleanPath.slice(1));
-
-    if (!existsSync(filePath)) {
-      return this.serve404(cleanPath, res);
+  /**
+   * Serve a module through the plugin pipeline: load → transform → import rewriting.
+   * Records the module's imports and accepted deps in the module graph.
+   */
+  private async serveModule(
+    pathname: string,
+    search: string,
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    const id = this.urlToModuleId(pathname, search);
+
+    // Files are served again as-is until the watcher invalidates them; virtual modules are
+    // always loaded since plugins may return something new
+    const served = this.moduleGraph.get(id);
+    if (this.transformCache && served?.etag && id.startsWith('/') && !id.startsWith('/@')) {
+      this.modulesReused++;
+      return this.sendModule(served.code, served.etag, req, res);
     }
 
-    const code = await readFile(filePath, 'utf-8');
-    const ext = extname(filePath);
-    const loader = ext === '.tsx' ? 'tsx' : 'ts';
-
-    const result = await transform(code, {
-      loader,
-      sourcemap: 'inline',
-      target: 'esnext',
-      format: 'esm',
-    });
+    const loaded = await this.loadModule(id);
+    if (loaded === null) {
+      return this.serve404(pathname, res);
+    }
 
-    const importerDir = '/' + dirname(cleanPath.slice(1));
-    const transformed = this.transformImports(result.code, importerDir, cleanPath);
-    const timestamp = Date.now();
+    const file = id.split('?')[0];
+    // Transpile output also depends on the nearest tsconfig
+    const cacheExtra = SCRIPT_EXTS.includes(extname(file)) ? JSON.stringify(this.transpileOptions(id)) : '';
+    let code = await this.transformCache?.get(id, loaded, cacheExtra);
+    if (code === undefined) {
+      code = await this.pluginContainer.transform(loaded, id);
+      await this.transformCache?.set(id, loaded, cacheExtra, code);
+    }
+    if (extname(file) === '.css') {
+      code = await this.processCss(code, file);
+    }
+    if (file.endsWith('.module.css')) {
+      const { css, classes } = compileCssModule(code, file);
+      code = cssToModule(css, this.toImportUrl(id), classes);
+    } else if (extname(file) === '.css') {
+      code = cssToModule(code, this.toImportUrl(id));
+    }
+    const result = await this.transformImports(code, id);
+
+    const mod = this.moduleGraph.ensure(id);
+    mod.code = result.code;
+    mod.etag = `"${createHash('sha256').update(result.code).digest('hex').slice(0, 16)}"`;
+    mod.timestamp = Date.now();
+    const pruned = this.moduleGraph.updateModuleInfo(mod, result);
+    for (const prunedMod of pruned) {
+      const targets = this.clientsWithModule(prunedMod.id);
+      this.sendHMR(targets, { type: 'prune', paths: [this.toImportUrl(prunedMod.id)] });
+    }
 
-    this.moduleGraph.set(cleanPath, {
-      code: transformed,
-      timestamp,
-      url: cleanPath,
-    });
+    this.sendModule(mod.code, mod.etag, req, res);
+  }
 
+  /** Send module code, or 304 when the browser already has this version. */
+  private sendModule(code: string, etag: string, req: IncomingMessage, res: ServerResponse): void {
+    if (req.headers['if-none-match'] === etag) {
+      res.writeHead(304, { ETag: etag, 'Cache-Control': 'no-cache' });
+      res.end();
+      return;
+    }
     res.writeHead(200, {
       'Content-Type': MIME_TYPES['.ts'],
       'Cache-Control': 'no-cache',
+      ETag: etag,
     });
-    res.end(transformed);
+    res.end(code);
   }
 
-  private transformImports(code: string, importerDir: string, importerPath: string): string {
-    const timestamp = Date.now();
+  /** Browser URL (path without base, query kept) → module id. */
+  private urlToModuleId(pathname: string, search: string): string {
+    const query = cleanQuery(search);
+    const path = pathname.startsWith('/@id/') ? urlToVirtualId(pathname) : pathname;
+    return query ? path + '?' + query : path;
+  }
 
-    // Rewrite relative imports to include full path and cache-bust
-    const prefix = this.basePrefix;
-    const withBase = (p: string) => (prefix ? prefix + p : p);
+  /** Module id → URL to import it from the browser (with base, without cache-bust). */
+  private toImportUrl(id: string): string {
+    if (!id.startsWith('/')) return this.basePrefix + virtualIdToUrl(id);
+    const ext = extname(id.split('?')[0]);
+    if (!id.startsWith('/@') && ext && !SCRIPT_EXTS.includes(ext)) {
+      return this.basePrefix + appendQuery(id, 'import');
+    }
+    return this.basePrefix + id;
+  }
 
-    const resolveImport = (path: string): string => {
-      if (path.startsWith('.') || path.startsWith('/')) {
-        const resolved = this.resolveImportPath(path, importerDir, importerPath);
-        return withBase(resolved) + '?t=' + timestamp;
-      }
-      const bare = this.resolveBareSpecifier(path, importerPath);
-      if (bare) {
-        return withBase('/@node_modules/' + bare.packageName + '/' + bare.entrySubpath) + '?t=' + timestamp;
+  /**
+   * Run plugin `load` hooks, falling back to the file on disk. Scripts and stylesheets are
+   * returned as source (stylesheets are wrapped by `cssToModule` after transform); other files
+   * imported from modules become a default export: parsed JSON for `.json`, otherwise the file URL.
+   */
+  private async loadModule(id: string): Promise<string | null> {
+    const loaded = await this.pluginContainer.load(id);
+    if (loaded !== null) return loaded;
+
+    const path = id.split('?')[0];
+    if (!path.startsWith('/')) return null;
+    const filePath = join(this.root, path.slice(1));
+    if (!existsSync(filePath) || !statSync(filePath).isFile()) return null;
+
+    const ext = extname(filePath);
+    if (SCRIPT_EXTS.includes(ext) || ext === '.css') {
+      return readFile(filePath, 'utf-8');
+    }
+    if (ext === '.json') {
+      return `export default ${await readFile(filePath, 'utf-8')};`;
+    }
+    return `export default ${JSON.stringify(this.basePrefix + path)};`;
+  }
+
+  private async transformImports(
+    code: string,
+    importerId: string
+  ): Promise<
+    Pick<ModuleInfo, 'code' | 'imports' | 'importedModules' | 'acceptedDeps' | 'isSelfAccepting' | 'isDeclined'>
+  > {
+    const importedModules = new Set<string>();
+    const acceptedDeps = new Set<string>();
+    let isSelfAccepting = false;
+
+    // Rewrite imports to resolved URLs (via plugin resolveId hooks). Modules that changed since
+    // startup get their last HMR timestamp so the browser fetches the new version.
+    const resolveImport = async (path: string): Promise<string> => {
+      const resolved = await this.pluginContainer.resolveId(path, importerId);
+      if (resolved === null) {
+        // Left to the browser, which may map it with an import map (e.g. to a CDN)
+        if (isBareSpecifier(path)) this.warnUnresolved(path, importerId);
+        return path;
       }
-      return path;
+      importedModules.add(resolved);
+      const url = this.toImportUrl(resolved);
+      const dep = this.moduleGraph.get(resolved);
+      return dep?.lastHMRTimestamp ? appendQuery(url, 't=' + dep.lastHMRTimestamp) : url;
     };
 
-    code = code.replace(
-      /from\s+['"]([^'"]+)['"]/g,
-      (_match, path: string) => `from '${resolveImport(path)}'`
-    );
-
-    code = code.replace(
-      /import\s+\(['"]([^'"]+)['"]\)/g,
-      (_match, path: string) => `import('${resolveImport(path)}')`
-    );
+    const { imports, hot } = await parseImports(code);
+    // Replacements cover the quotes; JSON.stringify keeps URLs containing quotes or backslashes valid
+    const edits: Edit[] = [];
+    for (const imp of imports) {
+      if (imp.specifier === null) continue;
+      let url: string;
+      if (imp.kind === 'url') {
+        // new URL('./logo.png', import.meta.url) needs the file itself, not a module wrapping it
+        const resolved = await this.pluginContainer.resolveId(imp.specifier, importerId);
+        if (resolved === null || !resolved.startsWith('/')) continue;
+        url = this.basePrefix + resolved;
+      } else {
+        url = await resolveImport(imp.specifier);
+      }
+      edits.push({ start: imp.start - 1, end: imp.end + 1, text: JSON.stringify(url) });
+    }
 
-    code = code.replace(
-      /import\s+['"]([^'"]+)['"]/g,
-      (_match, path: string) => `import '${resolveImport(path)}'`
-    );
+    // import.meta.hot.accept() / accept(cb) self-accepts; accept('dep') / accept(['a', 'b'])
+    // accepts deps, whose specifiers are rewritten to the URLs the client receives in updates.
+    for (const call of hot) {
+      if (call.method === 'decline') continue;
+      if (call.deps.length === 0) isSelfAccepting = true;
+      for (const dep of call.deps) {
+        const resolved = await this.pluginContainer.resolveId(dep.specifier, importerId);
+        if (resolved === null) continue;
+        acceptedDeps.add(resolved);
+        edits.push({ start: dep.start - 1, end: dep.end + 1, text: JSON.stringify(this.toImportUrl(resolved)) });
+      }
+    }
 
     // Inject HMR context at start (so import.meta.hot exists before user code runs)
     const hmrInject = `
@@ -639,9 +1261,94 @@ if (typeof window !== 'undefined' && window.__MINI_DEV_HOT__) {
   import.meta.hot = window.__MINI_DEV_HOT__(import.meta.url);
 }
 `;
-    code = hmrInject.trim() + '\n' + code;
+    edits.push({ start: 0, end: 0, text: hmrInject.trim() + '\n' });
+    code = applyEdits(code, edits);
+
+    const isDeclined = hot.some((call) => call.method === 'decline');
 
-    return code;
+    return { code, imports, importedModules, acceptedDeps, isSelfAccepting, isDeclined };
+  }
+
+  private warnUnresolved(specifier: string, importerId: string): void {
+    if (this.unresolvedImports.has(specifier)) return;
+    this.unresolvedImports.add(specifier);
+    if (this.silent) return;
+    const c = { dim: '\x1b[2m', yellow: '\x1b[33m', reset: '\x1b[0m' };
+    console.warn(
+      `${c.dim}[${this.label}]${c.reset} ${c.yellow}Could not resolve import "${specifier}" from "${importerId}"; ` +
+        `leaving it to the browser (is the package installed, or mapped by an import map?)${c.reset}`
+    );
+  }
+
+  /**
+   * Apply `resolve.alias`. Returns a root-relative URL path when the replacement is a file path
+   * (absolute, inside root, or `./` relative to root), the replaced specifier when it is a
+   * package name, or `null` when no alias matches.
+   */
+  private applyAlias(source: string): string | null {
+    for (const { find, replacement } of this.aliases) {
+      let replaced: string;
+      if (typeof find === 'string') {
+        if (source !== find && !source.startsWith(find.endsWith('/') ? find : find + '/')) continue;
+        replaced = replacement + source.slice(find.length);
+      } else {
+        if (!find.test(source)) continue;
+        replaced = source.replace(find, replacement);
+      }
+      if (replaced === this.root || replaced.startsWith(this.root + sep)) {
+        return '/' + relative(this.root, replaced).replace(/\\/g, '/');
+      }
+      if (replaced.startsWith('./')) return replaced.slice(1);
+      return replaced;
+    }
+    return null;
+  }
+
+  /**
+   * Resolve a non-relative specifier through `compilerOptions.paths` (then `baseUrl`) of the
+   * nearest tsconfig.json. Returns the root-relative URL path of the first existing target.
+   */
+  private applyTsconfigPaths(source: string, fromDir: string): string | null {
+    if (source.startsWith('.') || source.startsWith('/') || source.includes(':')) return null;
+    const tsconfigFile = findTsconfig(fromDir);
+    if (!tsconfigFile) return null;
+    const options = loadTsconfig(tsconfigFile).compilerOptions;
+    const candidates = matchTsconfigPaths(source, options);
+    if (options.baseUrl) candidates.push(join(options.baseUrl, source));
+    for (const candidate of candidates) {
+      const file = this.probeFile(candidate);
+      if (!file) continue;
+      const fromRoot = relative(this.root, file);
+      if (!fromRoot.startsWith('..') && !isAbsolute(fromRoot)) return '/' + fromRoot.replace(/\\/g, '/');
+    }
+    return null;
+  }
+
+  /** compilerOptions of the tsconfig.json nearest to a module that affect esbuild's output. */
+  private transpileOptions(id: string): TsconfigRaw['compilerOptions'] {
+    const tsconfigFile = findTsconfig(this.importerDir(id.split('?')[0]));
+    if (!tsconfigFile) return {};
+    const options = loadTsconfig(tsconfigFile).compilerOptions;
+    return Object.fromEntries(TRANSPILE_OPTIONS.filter((key) => options[key] !== undefined).map((key) => [key, options[key]]));
+  }
+
+  /** Directory on disk of an importer module id (root for virtual modules). */
+  private importerDir(importerPath: string): string {
+    if (importerPath.startsWith('/@node_modules/')) {
+      const file = this.nodeModuleFile(importerPath);
+      return file ? dirname(file) : this.root;
+    }
+    return importerPath.startsWith('/') ? join(this.root, dirname(importerPath.slice(1))) : this.root;
+  }
+
+  /** An existing file for `path`, trying `resolve.extensions` and then `index` files. */
+  private probeFile(path: string): string | null {
+    const candidates = [
+      path,
+      ...this.extensions.map((ext) => path + ext),
+      ...this.extensions.map((ext) => join(path, 'index' + ext)),
+    ];
+    return candidates.find((c) => existsSync(c) && statSync(c).isFile()) ?? null;
   }
 
   private resolveImportPath(path: string, importerDir: string, importerPath: string): string {
@@ -663,11 +1370,11 @@ if (typeof window !== 'undefined' && window.__MINI_DEV_HOT__) {
     return resolved;
   }
 
+  /** Root-relative path of the file an extensionless import refers to (`.ts` when none exists). */
   private addExtension(path: string): string {
-    if (existsSync(join(this.root, path.slice(1) + '.tsx'))) return path + '.tsx';
-    if (existsSync(join(this.root, path.slice(1) + '.ts'))) return path + '.ts';
-    if (existsSync(join(this.root, path.slice(1) + '.js'))) return path + '.js';
-    return path + '.ts';
+    const file = this.probeFile(join(this.root, path.slice(1)));
+    if (!file) return path + '.ts';
+    return '/' + relative(this.root, file).replace(/\\/g, '/');
   }
 
   private async serveCss(url: string, res: ServerResponse): Promise<void> {
@@ -675,7 +1382,9 @@ if (typeof window !== 'undefined' && window.__MINI_DEV_HOT__) {
     if (!existsSync(filePath)) {
       return this.serve404(url, res);
     }
-    const css = await readFile(filePath, 'utf-8');
+    const loaded = (await this.pluginContainer.load(url)) ?? (await readFile(filePath, 'utf-8'));
+    let css = await this.processCss(await this.pluginContainer.transform(loaded, url), url);
+    if (url.endsWith('.module.css')) css = compileCssModule(css, url).css;
     res.writeHead(200, {
       'Content-Type': MIME_TYPES['.css'],
       'Cache-Control': 'no-cache',
@@ -683,9 +1392,112 @@ if (typeof window !== 'undefined' && window.__MINI_DEV_HOT__) {
     res.end(css);
   }
 
+  /**
+   * Inline `@import`s (relative and from node_modules) and rewrite `url()`s to absolute URLs
+   * under `base`, so the stylesheet works both as a `<link>` and injected into a `<style>` tag.
+   * Records the inlined files so editing one refreshes every stylesheet that includes it.
+   */
+  private async processCss(css: string, url: string): Promise<string> {
+    const deps = new Set<string>();
+    const external: string[] = [];
+    const out = await this.inlineCss(css, url, deps, external, [url]);
+    this.cssDeps.set(url, deps);
+    // Imports from other origins stay as `@import`, which must precede all other rules
+    return external.length > 0 ? external.join('\n') + '\n' + out : out;
+  }
+
+  private async inlineCss(
+    css: string,
+    url: string,
+    deps: Set<string>,
+    external: string[],
+    chain: string[]
+  ): Promise<string> {
+    const dir = url.slice(0, url.lastIndexOf('/')) || '/';
+    let out = '';
+    let last = 0;
+    for (const m of css.matchAll(CSS_IMPORT_OR_URL_RE)) {
+      out += css.slice(last, m.index);
+      last = m.index + m[0].length;
+
+      const importSpec = m[2] ?? m[4];
+      if (importSpec === undefined) {
+        const quote = m[6] || '"';
+        out += `url(${quote}${this.rewriteCssUrl(m[7].trim(), dir)}${quote})`;
+        continue;
+      }
+      if (isExternalCssUrl(importSpec)) {
+        external.push(m[0]);
+        continue;
+      }
+      const resolved = this.resolveCssImport(importSpec, dir);
+      const file = this.cssUrlToFile(resolved);
+      if (!file) {
+        throw new Error(`Cannot resolve @import '${importSpec}' from ${url}`);
+      }
+      // An import cycle would inline forever; the browser ignores it as well
+      if (chain.includes(resolved)) continue;
+      deps.add(resolved);
+      const loaded = (await this.pluginContainer.load(resolved)) ?? (await readFile(file, 'utf-8'));
+      const source = (await this.pluginContainer.transform(loaded, resolved)).replace(/@charset\s+[^;]+;\s*/i, '');
+      const inlined = await this.inlineCss(source, resolved, deps, external, [...chain, resolved]);
+      out += wrapCssImport(inlined, m[5]);
+    }
+    return out + css.slice(last);
+  }
+
+  /**
+   * `@import` specifier → URL path. Like CSS, `'tokens.css'` is relative to the importing
+   * stylesheet; when no such file exists (or with a `~` prefix) it is looked up in node_modules,
+   * using the package's `style` field for a bare package name.
+   */
+  private resolveCssImport(spec: string, dir: string): string {
+    const aliased = this.applyAlias(spec) ?? this.applyTsconfigPaths(spec, join(this.root, dir.slice(1)));
+    if (aliased?.startsWith('/')) return aliased;
+    if (aliased) spec = aliased;
+    if (spec.startsWith('/')) return spec;
+    const relativeUrl = join(dir, spec).replace(/\\/g, '/');
+    if (spec.startsWith('.') || (!spec.startsWith('~') && this.cssUrlToFile(relativeUrl))) {
+      return relativeUrl;
+    }
+    const specifier = spec.replace(/^~/, '');
+    const packageName = packageNameOf(specifier);
+    const subpath = specifier.slice(packageName.length + 1);
+    const packageDir = this.findPackageDir(packageName);
+    if (!packageDir) return '/@node_modules/' + specifier;
+    const pkg = readPackageJson(packageDir) as PackageJson & { style?: string };
+    if (!subpath && pkg.style) return '/@node_modules/' + packageName + '/' + pkg.style.replace(/^\.\//, '');
+    try {
+      const conditions = subpath ? new Set(['style', ...this.conditions]) : new Set(['style']);
+      const bare = this.resolveBareSpecifier(specifier, conditions);
+      if (bare?.entrySubpath && extname(bare.entrySubpath) === '.css') {
+        return '/@node_modules/' + packageName + '/' + bare.entrySubpath;
+      }
+    } catch {
+      /* not exported: fall back to the file path in the package */
+    }
+    return '/@node_modules/' + specifier;
+  }
+
+  private rewriteCssUrl(spec: string, dir: string): string {
+    if (isExternalCssUrl(spec)) return spec;
+    if (spec.startsWith('/')) {
+      return this.basePrefix && spec.startsWith(this.basePrefix + '/') ? spec : this.basePrefix + spec;
+    }
+    if (spec.startsWith('~')) return this.basePrefix + '/@node_modules/' + spec.slice(1);
+    return this.basePrefix + join(dir, spec).replace(/\\/g, '/');
+  }
+
+  /** Stylesheet URL path (root-relative or `/@node_modules/...`) → file on disk, if it exists. */
+  private cssUrlToFile(url: string): string | null {
+    if (url.startsWith('/@node_modules/')) return this.nodeModuleFile(url);
+    const filePath = join(this.root, url.slice(1));
+    return existsSync(filePath) && statSync(filePath).isFile() ? filePath : null;
+  }
+
   private async serveStatic(url: string, res: ServerResponse): Promise<void> {
     const filePath = join(this.root, url.slice(1));
-    if (!existsSync(filePath)) {
+    if (!existsSync(filePath) || !statSync(filePath).isFile()) {
       return this.serve404(url, res);
     }
     const ext = extname(filePath);
@@ -698,31 +1510,184 @@ if (typeof window !== 'undefined' && window.__MINI_DEV_HOT__) {
     res.end(data);
   }
 
+  /**
+   * Messages from the HMR client: `hmr:modules` reports module URLs the page has loaded,
+   * `hmr:invalidate` hands an update a module could not apply to its importers.
+   */
+  private handleClientMessage(ws: WSWebSocket, raw: string): void {
+    let msg: { type?: string; paths?: unknown; path?: unknown; message?: unknown };
+    try {
+      msg = JSON.parse(raw);
+    } catch {
+      return;
+    }
+    if (msg.type === 'hmr:modules' && Array.isArray(msg.paths)) {
+      // Errors of modules this page imports that it was not sent yet
+      const imports = (id: string) => this.clientsImporting(id).includes(ws);
+      const known = [...this.failedPaths.values()].filter(({ id }) => imports(id));
+      let loaded = this.clientModules.get(ws);
+      if (!loaded) {
+        loaded = new Set();
+        this.clientModules.set(ws, loaded);
+      }
+      for (const url of msg.paths) {
+        const id = typeof url === 'string' ? this.clientUrlToModuleId(url) : null;
+        if (id) loaded.add(id);
+      }
+      for (const failed of this.failedPaths.values()) {
+        if (!known.includes(failed) && imports(failed.id)) this.sendHMR([ws], { type: 'error', err: failed.err });
+      }
+    } else if (msg.type === 'hmr:invalidate' && typeof msg.path === 'string') {
+      const id = this.clientUrlToModuleId(msg.path);
+      const mod = id ? this.moduleGraph.get(id) : undefined;
+      if (!mod) return;
+      if (!this.silent) {
+        const c = { dim: '\x1b[2m', yellow: '\x1b[33m', reset: '\x1b[0m' };
+        const reason = typeof msg.message === 'string' && msg.message ? `: ${msg.message}` : '';
+        console.log(`${c.dim}[${this.label}] [HMR]${c.reset} ${c.yellow}invalidate${c.reset} ${mod.id}${reason}`);
+      }
+      this.updateModule(mod, Date.now(), [...mod.importers]);
+    }
+  }
+
+  /** Client module URL (with base) → module id, or `null` when outside base. */
+  private clientUrlToModuleId(url: string): string | null {
+    const [pathname, search] = url.split('?');
+    if (this.basePrefix && !pathname.startsWith(this.basePrefix + '/')) return null;
+    return this.urlToModuleId(pathname.slice(this.basePrefix.length), search ?? '');
+  }
+
+  private clientsWithModule(id: string): WSWebSocket[] {
+    return [...this.clients].filter((c) => this.clientModules.get(c)?.has(id));
+  }
+
+  /** Clients that loaded `id` or a module importing it, directly or through other modules. */
+  private clientsImporting(id: string): WSWebSocket[] {
+    const ids = new Set([id]);
+    for (const current of ids) {
+      for (const importer of this.moduleGraph.get(current)?.importers ?? []) ids.add(importer);
+    }
+    return [...this.clients].filter((c) => {
+      const loaded = this.clientModules.get(c);
+      return [...ids].some((i) => loaded?.has(i));
+    });
+  }
+
   private handleFileChange(file: string): void {
     const relative = file.replace(this.root, '').replace(/\\/g, '/');
     const url = relative.startsWith('/') ? relative : '/' + relative;
 
-    this.moduleGraph.delete(url);
-
     if (!this.silent) {
       const c = { dim: '\x1b[2m', cyan: '\x1b[36m', yellow: '\x1b[33m', reset: '\x1b[0m' };
       console.log(`${c.dim}[${this.label}] [HMR]${c.reset} ${c.yellow}file changed${c.reset} ${c.cyan}${url}${c.reset}`);
     }
 
-    const pathForClient = this.basePrefix ? this.basePrefix + url : url;
-    const msg = { type: 'update' as const, path: pathForClient, timestamp: Date.now() };
-    this.broadcast(msg);
+    // Mock routes run on the server; the next request loads the new version
+    if (this.mockApi?.handleChange(file)) return;
 
-    if (!this.silent) {
-      const n = this.clients.size;
-      if (n > 0) {
-        const c = { dim: '\x1b[2m', reset: '\x1b[0m' };
-        console.log(`${c.dim}[${this.label}] [HMR]${c.reset} update sent to ${n} client${n === 1 ? '' : 's'}`);
+    const ext = extname(url);
+    const timestamp = Date.now();
+    const mods = this.moduleGraph.getByPath(url);
+
+    // Path mappings may now resolve differently in any module
+    if (/^tsconfig.*\.json$/.test(basename(url))) {
+      clearTsconfigCache();
+      this.moduleGraph.invalidateAll();
+      this.sendHMR([...this.clients], { type: 'full-reload' });
+      return;
+    }
+
+    // A module that failed on first load was never reported by any page; reload them all
+    if (this.failedPaths.delete(url) && mods.every((m) => this.clientsWithModule(m.id).length === 0)) {
+      this.sendHMR([...this.clients], { type: 'full-reload' });
+      return;
+    }
+
+    if (ext === '.html') {
+      this.sendHMR([...this.clients], { type: 'full-reload', path: this.basePrefix + url });
+      return;
+    }
+    // Stylesheets may be linked from HTML as well as imported from modules, and inlined into
+    // other stylesheets through @import
+    if (ext === '.css') {
+      const sheets = [url];
+      for (const [sheet, deps] of this.cssDeps) {
+        if (deps.has(url)) sheets.push(sheet);
       }
+      const targets = [...this.clients].filter((c) => sheets.some((sheet) => this.clientModules.get(c)?.has(sheet)));
+      this.sendHMR(targets, {
+        type: 'update',
+        updates: sheets.map((sheet) => {
+          const path = this.basePrefix + sheet;
+          return { type: 'css-update', path, acceptedPath: path, timestamp };
+        }),
+      });
+      mods.push(...sheets.slice(1).flatMap((sheet) => this.moduleGraph.getByPath(sheet)));
+    }
+    if (mods.length === 0) {
+      if (ext !== '.css') this.log('no loaded module for', url);
+      return;
+    }
+
+    for (const mod of mods) {
+      this.moduleGraph.invalidate(mod);
+      this.updateModule(mod, timestamp, [mod.id]);
+    }
+  }
+
+  /**
+   * Send an update for `mod` to the clients that loaded it, propagating from `startIds`
+   * (the module itself on file change, its importers on invalidate).
+   */
+  private updateModule(mod: ModuleInfo, timestamp: number, startIds: string[]): void {
+    const targets = this.clientsWithModule(mod.id);
+    const boundaries: HMRUpdate[] = [];
+    let fullReload = startIds.length === 0;
+    for (const startId of startIds) {
+      const start = this.moduleGraph.get(startId);
+      const result = start ? this.moduleGraph.propagateUpdate(start) : null;
+      if (!result) {
+        fullReload = true;
+        break;
+      }
+      for (const m of result.invalidated) {
+        m.lastHMRTimestamp = timestamp;
+        this.moduleGraph.invalidate(m);
+      }
+      for (const { boundary, acceptedVia } of result.boundaries) {
+        boundaries.push({
+          type: 'js-update',
+          path: this.toImportUrl(boundary.id),
+          acceptedPath: this.toImportUrl(acceptedVia.id),
+          timestamp,
+        });
+      }
+    }
+    if (fullReload) {
+      this.log('no HMR boundary for', mod.id, '- full reload');
+      this.sendHMR(targets, { type: 'full-reload' });
+      return;
+    }
+    this.sendHMR(targets, { type: 'update', updates: boundaries });
+  }
+
+  private sendHMR(targets: WSWebSocket[], message: HMRMessage): void {
+    const data = JSON.stringify(message);
+    let sent = 0;
+    for (const client of targets) {
+      if (client.readyState === 1) {
+        client.send(data);
+        sent++;
+      }
+    }
+    if (!this.silent && sent > 0) {
+      const c = { dim: '\x1b[2m', reset: '\x1b[0m' };
+      const what = message.type === 'full-reload' ? 'full reload' : message.type;
+      console.log(`${c.dim}[${this.label}] [HMR]${c.reset} ${what} sent to ${sent} client${sent === 1 ? '' : 's'}`);
     }
   }
 
-  private broadcast(message: { type: string; path: string; timestamp: number }): void {
+  private broadcast(message: { type: string; [key: string]: unknown }): void {
     const data = JSON.stringify(message);
     for (const client of this.clients) {
       if (client.readyState === 1) {
@@ -1,3 +1,5 @@
+export type { HotContext, HotEventMap, HotEventPayload, ModuleNamespace } from './hot-types.js';
+
 /**
  * Client-side env util: reads vars from the dev server's /@env payload.
  * Add <script src="/@env"></script> (or with base e.g. /app/@env) before your app so
@@ -0,0 +1,56 @@
+import { readFileSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+import type { Message } from 'esbuild';
+import type { HMRErrorPayload } from './types.js';
+
+/**
+ * Source excerpt around a 1-based line/column, with a `>` on the error line and a caret
+ * under the column.
+ */
+export function codeFrame(source: string, line: number, column: number, range = 2): string {
+  const lines = source.split(/\r?\n/);
+  const start = Math.max(1, line - range);
+  const end = Math.min(lines.length, line + range);
+  const width = String(end).length;
+  const out: string[] = [];
+  for (let n = start; n <= end; n++) {
+    const gutter = String(n).padStart(width);
+    out.push(`${n === line ? '>' : ' '} ${gutter} | ${lines[n - 1]}`);
+    if (n === line) {
+      out.push(`  ${' '.repeat(width)} | ${' '.repeat(Math.max(0, column - 1))}^`);
+    }
+  }
+  return out.join('\n');
+}
+
+/**
+ * Turn an error thrown while serving `id` into an overlay payload. esbuild errors carry
+ * a location; plugin errors are tagged with the plugin name by PluginContainer.
+ */
+export function prepareError(err: unknown, root: string, id: string): HMRErrorPayload {
+  const e = (err instanceof Error ? err : new Error(String(err))) as Error & {
+    errors?: Message[];
+    plugin?: string;
+  };
+  const payload: HMRErrorPayload = { message: e.message, stack: e.stack, id, plugin: e.plugin };
+
+  const location = e.errors?.[0]?.location;
+  if (location) {
+    payload.message = e.errors![0].text;
+    payload.line = location.line;
+    payload.column = location.column + 1;
+    const path = location.file.split('?')[0];
+    const file = path.startsWith('/') ? join(root, path.slice(1)) : null;
+    if (file && existsSync(file)) {
+      payload.file = file;
+      payload.frame = codeFrame(readFileSync(file, 'utf-8'), location.line, location.column + 1);
+    } else {
+      // Virtual module: only the failing line is known
+      const gutter = String(location.line);
+      payload.frame = `> ${gutter} | ${location.lineText}\n  ${' '.repeat(gutter.length)} | ${' '.repeat(location.column)}^`;
+    }
+    // esbuild's stack points at esbuild internals, not user code
+    payload.stack = undefined;
+  }
+  return payload;
+}
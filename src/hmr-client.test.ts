@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { getHMRClient } from './hmr-client.js';
+
+/** Stands in for the browser's WebSocket: records sent messages and lets tests push server messages. */
+class FakeWebSocket {
+  static last: FakeWebSocket;
+  readyState = 1;
+  sent: Array<Record<string, unknown>> = [];
+  onopen: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => Promise<void>) | null = null;
+
+  constructor(readonly url: string) {
+    FakeWebSocket.last = this;
+  }
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data));
+  }
+
+  /** Deliver a server message and wait until the client has handled it. */
+  receive(message: Record<string, unknown>): Promise<void> {
+    return this.onmessage!({ data: JSON.stringify(message) });
+  }
+}
+
+describe('HMR client', () => {
+  let dir: string;
+  let events: string[];
+  let reload: ReturnType<typeof vi.fn>;
+  let socket: FakeWebSocket;
+
+  /** Write a module that records what happens to it in `events`; `body` runs with `hot` in scope. */
+  const writeModule = (name: string, body: string) =>
+    writeFile(join(dir, name), `const hot = window.__MINI_DEV_HOT__(import.meta.url);\n${body}`);
+  const path = (name: string) => join(dir, name).replace(/\\/g, '/');
+  const url = (name: string) => pathToFileURL(join(dir, name)).href;
+  let nativeImport: (url: string) => Promise<Record<string, unknown>>;
+  const load = (name: string) => nativeImport(url(name));
+
+  beforeEach(async () => {
+    // vitest loads .mjs files under node_modules with Node's own loader, which (like a browser)
+    // runs a module again when its URL gets a new ?t=
+    dir = join(await mkdtemp(join(tmpdir(), 'mini-dev-hmr-client-')), 'node_modules');
+    await mkdir(dir);
+    // Imports from the test file itself go through vitest, which drops the query
+    await writeFile(join(dir, 'import.mjs'), 'export default (url) => import(url);');
+    nativeImport = (await import(/* @vite-ignore */ url('import.mjs'))).default;
+    events = [];
+    reload = vi.fn();
+    const location = { protocol: 'http:', host: 'localhost:3000', origin: 'http://localhost:3000', href: pathToFileURL(join(dir, 'index.html')).href, pathname: '/', reload };
+    vi.stubGlobal('window', { location, addEventListener: () => {} });
+    vi.stubGlobal('location', location);
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    vi.stubGlobal('events', events);
+    // Loaded as a module so the client's own import() of updated modules works
+    await writeFile(join(dir, 'client.mjs'), getHMRClient('ws', 'MINI-DEV', true, false));
+    await load('client.mjs');
+    socket = FakeWebSocket.last;
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    await rm(dirname(dir), { recursive: true, force: true });
+  });
+
+  /** Send an update that re-imports `accepted` at the `boundary` module; file URLs stand in for served paths. */
+  const update = (boundary: string, accepted: string, timestamp: number) =>
+    socket.receive({
+      type: 'update',
+      updates: [{ type: 'js-update', path: url(boundary), acceptedPath: url(accepted), timestamp }],
+    });
+
+  it('reports modules that create a hot context', async () => {
+    await writeModule('a.mjs', 'export {};');
+    await load('a.mjs');
+    await Promise.resolve();
+    expect(socket.sent).toEqual([{ type: 'hmr:modules', paths: [path('a.mjs')] }]);
+  });
+
+  it("reports the page's entry scripts and same-origin stylesheets on connect", async () => {
+    vi.stubGlobal('document', {
+      querySelectorAll: () => [
+        { src: 'http://localhost:3000/main.ts' },
+        { href: 'http://localhost:3000/style.css?t=1' },
+        { href: 'https://cdn.example.com/reset.css' },
+      ],
+    });
+    socket.onopen!();
+    await Promise.resolve();
+    expect(socket.sent).toEqual([{ type: 'hmr:modules', paths: ['/main.ts', '/style.css'] }]);
+  });
+
+  it('disposes the old version, re-imports, then calls accept with the new module and kept data', async () => {
+    await writeModule(
+      'dep.mjs',
+      "hot.data.runs = (hot.data.runs ?? 0) + 1;\nevents.push('run ' + hot.data.runs);\nhot.dispose((data) => events.push('dispose ' + data.runs));\nexport const runs = hot.data.runs;"
+    );
+    await writeModule(
+      'main.mjs',
+      "await import('./dep.mjs');\nhot.accept('./dep.mjs', (mod) => events.push('accept ' + mod.runs));"
+    );
+    await load('main.mjs');
+    expect(events).toEqual(['run 1']);
+
+    await update('main.mjs', 'dep.mjs', 1);
+    expect(events).toEqual(['run 1', 'dispose 1', 'run 2', 'accept 2']);
+    await update('main.mjs', 'dep.mjs', 2);
+    expect(events.slice(4)).toEqual(['dispose 2', 'run 3', 'accept 3']);
+  });
+
+  it('lets a module accept itself', async () => {
+    await writeModule('self.mjs', "events.push('run');\nhot.accept((mod) => events.push('accept ' + mod.value));\nexport const value = 1;");
+    await load('self.mjs');
+    await update('self.mjs', 'self.mjs', 1);
+    expect(events).toEqual(['run', 'run', 'accept 1']);
+  });
+
+  it('runs dispose and prune callbacks and forgets data for pruned modules', async () => {
+    await writeModule(
+      'pruned.mjs',
+      "hot.data.seen = (hot.data.seen ?? 0) + 1;\nhot.dispose((data) => events.push('dispose ' + data.seen));\nhot.prune((data) => events.push('prune ' + data.seen));"
+    );
+    await load('pruned.mjs');
+    await socket.receive({ type: 'prune', paths: [path('pruned.mjs')] });
+    expect(events).toEqual(['dispose 1', 'prune 1']);
+
+    // Imported again later, it starts with empty data
+    await nativeImport(url('pruned.mjs') + '?t=1');
+    await socket.receive({ type: 'prune', paths: [path('pruned.mjs')] });
+    expect(events.slice(2)).toEqual(['dispose 1', 'prune 1']);
+  });
+
+  it('drops listeners registered by the previous version of a module', async () => {
+    await writeModule(
+      'listener.mjs',
+      "const version = (hot.data.version = (hot.data.version ?? 0) + 1);\nhot.on('app:ping', (data) => events.push('v' + version + ' ' + data.n));\nhot.accept();"
+    );
+    await load('listener.mjs');
+    await socket.receive({ type: 'custom', event: 'app:ping', data: { n: 1 } });
+    await update('listener.mjs', 'listener.mjs', 1);
+    await socket.receive({ type: 'custom', event: 'app:ping', data: { n: 2 } });
+    expect(events).toEqual(['v1 1', 'v2 2']);
+  });
+
+  it('stops calling a listener removed with off', async () => {
+    await writeModule(
+      'off.mjs',
+      "const cb = (data) => events.push('ping ' + data.n);\nhot.on('app:ping', cb);\nexport const off = () => hot.off('app:ping', cb);"
+    );
+    const mod = (await load('off.mjs')) as { off: () => void };
+    await socket.receive({ type: 'custom', event: 'app:ping', data: { n: 1 } });
+    mod.off();
+    await socket.receive({ type: 'custom', event: 'app:ping', data: { n: 2 } });
+    expect(events).toEqual(['ping 1']);
+  });
+
+  it('sends invalidate to the server, or reloads when disconnected', async () => {
+    await writeModule('invalid.mjs', "export const invalidate = (message) => hot.invalidate(message);");
+    const mod = (await load('invalid.mjs')) as { invalidate: (message?: string) => void };
+    await Promise.resolve();
+    socket.sent = [];
+    mod.invalidate('cannot update');
+    expect(socket.sent).toEqual([{ type: 'hmr:invalidate', path: path('invalid.mjs'), message: 'cannot update' }]);
+    expect(reload).not.toHaveBeenCalled();
+
+    socket.readyState = 3;
+    mod.invalidate();
+    expect(reload).toHaveBeenCalledOnce();
+  });
+
+  it('reloads on full-reload, only for the page it names', async () => {
+    await socket.receive({ type: 'full-reload', path: '/other.html' });
+    expect(reload).not.toHaveBeenCalled();
+    await socket.receive({ type: 'full-reload' });
+    expect(reload).toHaveBeenCalledOnce();
+  });
+});
@@ -1,8 +1,15 @@
 /**
  * HMR client script injected into HTML pages.
- * Auto-injects HMR: re-imports entry on .ts/.tsx change, swaps CSS links.
+ * Reports loaded modules to the server, applies module updates at their accept boundaries,
+ * swaps CSS links, reloads the page when the server finds no boundary, and shows transform
+ * and update errors in an overlay.
  */
-export function getHMRClient(_wsProtocol: string, label = 'MINI-DEV', silent = false): string {
+export function getHMRClient(
+  _wsProtocol: string,
+  label = 'MINI-DEV',
+  silent = false,
+  overlay = true
+): string {
   const lbl = JSON.stringify(label);
   const logFn = silent ? '(()=>{})' : "((...a)=>console.log(...a))";
   const errFn = silent ? '(()=>{})' : "((...a)=>console.error(...a))";
@@ -11,89 +18,274 @@ export function getHMRClient(_wsProtocol: string, label = 'MINI-DEV', silent = f
   const label = ${lbl};
   const log = ${logFn};
   const err = ${errFn};
+  const overlayEnabled = ${overlay ? 'true' : 'false'};
   const wsProto = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
   const socket = new WebSocket(wsProto + '//' + location.host);
 
-  socket.onopen = () => log('[' + label + '] HMR connected');
+  socket.onopen = () => {
+    log('[' + label + '] HMR connected');
+    reportModules([...hotModules.keys(), ...pageUrls()]);
+  };
   socket.onclose = () => log('[' + label + '] HMR disconnected');
   socket.onerror = (e) => err('[' + label + '] HMR error', e);
 
-  function getEntryUrl() {
-    const scripts = document.querySelectorAll('script[type="module"][src]');
-    for (const s of scripts) {
-      if (s.src && !s.src.includes('@hmr-client')) {
-        try { return new URL(s.src).pathname; } catch { return s.src; }
-      }
+  // Module URL without the t (cache-bust) and import markers, as sent in updates
+  function cleanUrl(url, base) {
+    const u = new URL(url, base || location.href);
+    const query = u.search.slice(1).split('&').filter((p) => p && p !== 'import' && p !== 'import=' && !p.startsWith('t=')).join('&');
+    return u.pathname + (query ? '?' + query : '');
+  }
+
+  // Entry scripts and stylesheets linked from the page, so the server sends their errors and CSS updates here
+  function pageUrls() {
+    const urls = [];
+    for (const el of document.querySelectorAll('script[type="module"][src], link[rel="stylesheet"][href]')) {
+      const url = new URL(el.src || el.href, location.href);
+      if (url.origin === location.origin) urls.push(cleanUrl(url.href));
     }
-    return null;
+    return urls;
   }
 
-  const acceptors = new Map();
-  function resolvePath(moduleUrl, dep) {
-    try { return new URL(dep, moduleUrl.replace(/[^/]+$/, '') + '/').pathname; } catch { return dep.startsWith('/') ? dep : '/' + dep; }
+  function withTimestamp(url, timestamp) {
+    return url + (url.includes('?') ? '&' : '?') + 't=' + timestamp;
+  }
+
+  // path → hot state for every module that created a hot context
+  const hotModules = new Map();
+  // path → hot.data, kept across versions of a module
+  const hotData = new Map();
+  // event → Set of listeners registered through hot.on
+  const listeners = new Map();
+  let pendingReport = null;
+  function reportModules(paths) {
+    if (socket.readyState !== 1) return;
+    if (!pendingReport) {
+      pendingReport = [];
+      queueMicrotask(() => {
+        socket.send(JSON.stringify({ type: 'hmr:modules', paths: pendingReport }));
+        pendingReport = null;
+      });
+    }
+    pendingReport.push(...paths);
+  }
+
+  function emit(event, payload) {
+    for (const cb of listeners.get(event) || []) {
+      try { cb(payload); } catch (e) { err('[' + label + '] HMR listener error for', event, e); }
+    }
+  }
+
+  function removeListeners(mod) {
+    for (const [event, cbs] of mod.listeners) {
+      const set = listeners.get(event);
+      if (set) for (const cb of cbs) set.delete(cb);
+    }
+    mod.listeners = new Map();
+  }
+
+  async function disposeModule(path) {
+    const mod = hotModules.get(path);
+    if (!mod) return;
+    const data = hotData.get(path);
+    for (const cb of mod.disposers) await cb(data);
   }
 
   window.__MINI_DEV_HOT__ = function(moduleUrl) {
+    const ownerPath = cleanUrl(moduleUrl);
+    let mod = hotModules.get(ownerPath);
+    if (!mod) {
+      mod = { callbacks: [], disposers: [], pruners: [], listeners: new Map() };
+      hotModules.set(ownerPath, mod);
+      reportModules([ownerPath]);
+    }
+    // A re-imported module registers its callbacks and listeners again
+    mod.callbacks = [];
+    mod.disposers = [];
+    mod.pruners = [];
+    removeListeners(mod);
+    if (!hotData.has(ownerPath)) hotData.set(ownerPath, {});
+
     return {
+      get data() { return hotData.get(ownerPath); },
       accept(deps, callback) {
-        if (typeof deps === 'function') { callback = deps; deps = [moduleUrl]; }
-        else if (typeof deps === 'string') { deps = [resolvePath(moduleUrl, deps)]; }
-        else if (Array.isArray(deps)) { deps = deps.map(d => resolvePath(moduleUrl, d)); }
-        else { deps = [moduleUrl]; }
-        for (const p of deps) {
-          const list = acceptors.get(p) || [];
-          list.push({ callback });
-          acceptors.set(p, list);
+        if (typeof deps === 'function' || deps === undefined) {
+          mod.callbacks.push({ deps: [ownerPath], fn: deps ? (mods) => deps(mods[0]) : undefined });
+        } else if (typeof deps === 'string') {
+          mod.callbacks.push({ deps: [cleanUrl(deps, moduleUrl)], fn: callback ? (mods) => callback(mods[0]) : undefined });
+        } else if (Array.isArray(deps)) {
+          mod.callbacks.push({ deps: deps.map((d) => cleanUrl(d, moduleUrl)), fn: callback });
+        }
+      },
+      dispose(cb) { mod.disposers.push(cb); },
+      prune(cb) { mod.pruners.push(cb); },
+      // The server reads decline() from the source and reloads when an update reaches this module
+      decline() {},
+      invalidate(message) {
+        emit('mini-dev:invalidate', { path: ownerPath, message });
+        log('[' + label + '] Invalidate', ownerPath + (message ? ': ' + message : ''));
+        if (socket.readyState === 1) {
+          socket.send(JSON.stringify({ type: 'hmr:invalidate', path: ownerPath, message }));
+        } else {
+          location.reload();
         }
       },
-      invalidate() { location.reload(); },
-      dispose() {}
+      on(event, cb) {
+        if (!listeners.has(event)) listeners.set(event, new Set());
+        listeners.get(event).add(cb);
+        if (!mod.listeners.has(event)) mod.listeners.set(event, []);
+        mod.listeners.get(event).push(cb);
+      },
+      off(event, cb) {
+        listeners.get(event)?.delete(cb);
+        const own = mod.listeners.get(event);
+        if (own) mod.listeners.set(event, own.filter((f) => f !== cb));
+      }
     };
   };
 
+  async function applyUpdate(update) {
+    const boundary = hotModules.get(cleanUrl(update.path));
+    if (!boundary) return;
+    const acceptedPath = cleanUrl(update.acceptedPath);
+    const callbacks = boundary.callbacks.filter(({ deps }) => deps.includes(acceptedPath));
+    await disposeModule(acceptedPath);
+    const newModule = await import(/* @vite-ignore */ withTimestamp(update.acceptedPath, update.timestamp));
+    for (const { deps, fn } of callbacks) {
+      if (fn) fn(deps.map((d) => (d === acceptedPath ? newModule : undefined)));
+    }
+    log('[' + label + '] Module updated:', acceptedPath);
+  }
+
+  async function prunePaths(paths) {
+    for (const url of paths) {
+      const path = cleanUrl(url);
+      const mod = hotModules.get(path);
+      if (!mod) continue;
+      await disposeModule(path);
+      const data = hotData.get(path);
+      for (const cb of mod.pruners) await cb(data);
+      removeListeners(mod);
+      hotModules.delete(path);
+      hotData.delete(path);
+    }
+  }
+
+  const overlayStyle = \`
+    .backdrop { position: fixed; inset: 0; z-index: 2147483647; background: rgba(0,0,0,0.66); display: flex; align-items: flex-start; justify-content: center; overflow: auto; padding: 5vh 1rem; }
+    .window { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 13px; line-height: 1.5; background: #181818; color: #d8d8d8; border-top: 6px solid #ff5555; border-radius: 6px; padding: 1.25rem 1.5rem; max-width: 960px; width: 100%; box-shadow: 0 20px 50px rgba(0,0,0,0.5); }
+    .header { display: flex; justify-content: space-between; align-items: center; color: #888; margin-bottom: 0.75rem; }
+    .close { background: none; border: 0; color: #aaa; font-size: 20px; cursor: pointer; }
+    pre { margin: 0 0 1rem; white-space: pre-wrap; word-break: break-word; }
+    .message { color: #ff7070; font-weight: 600; font-size: 14px; }
+    .file { color: #6cb6ff; margin-bottom: 0.5rem; }
+    .frame { background: #222; padding: 0.75rem; border-radius: 4px; color: #eee; }
+    .stack { color: #999; font-size: 12px; }
+    .tip { color: #777; font-size: 12px; }
+  \`;
+  let overlayEl = null;
+
+  function showOverlay(e) {
+    if (!overlayEnabled) return;
+    clearOverlay();
+    const host = document.createElement('mini-dev-error-overlay');
+    const shadow = host.attachShadow({ mode: 'open' });
+    shadow.innerHTML = '<style>' + overlayStyle + '</style>' +
+      '<div class="backdrop"><div class="window">' +
+      '<div class="header"><span class="label"></span><button class="close" aria-label="Close">&times;</button></div>' +
+      '<pre class="message"></pre><div class="file"></div><pre class="frame"></pre><pre class="stack"></pre>' +
+      '<div class="tip">Fix the error and save: the overlay closes on the next successful update. Press Esc or click outside to dismiss.</div>' +
+      '</div></div>';
+    const text = (sel, value) => {
+      const el = shadow.querySelector(sel);
+      if (value) el.textContent = value; else el.remove();
+    };
+    text('.label', label + (e.plugin ? ' [plugin ' + e.plugin + ']' : ''));
+    text('.message', e.message);
+    text('.file', (e.file || e.id || '') + (e.line ? ':' + e.line + ':' + e.column : ''));
+    text('.frame', e.frame);
+    text('.stack', e.stack);
+    shadow.querySelector('.close').addEventListener('click', clearOverlay);
+    shadow.querySelector('.backdrop').addEventListener('click', (ev) => {
+      if (ev.target === ev.currentTarget) clearOverlay();
+    });
+    document.body.appendChild(host);
+    overlayEl = host;
+  }
+
+  function clearOverlay() {
+    if (overlayEl) {
+      overlayEl.remove();
+      overlayEl = null;
+    }
+  }
+
+  window.addEventListener('keydown', (ev) => {
+    if (ev.key === 'Escape') clearOverlay();
+  });
+
+  function applyCssUpdate(update) {
+    const pathPart = update.path.split('?')[0];
+    for (const link of document.querySelectorAll('link[rel="stylesheet"]')) {
+      if (link.href && link.href.includes(pathPart)) {
+        link.href = link.href.replace(/[?&]t=\\d+/, '').replace(/([?&])$/, '') + (link.href.includes('?') ? '&' : '?') + 't=' + update.timestamp;
+      }
+    }
+    log('[' + label + '] CSS updated:', update.path);
+  }
+
   socket.onmessage = async (event) => {
+    let data;
     try {
-      const data = JSON.parse(event.data);
-      if (data.type !== 'update') return;
-
-      const { path, timestamp } = data;
-      const url = path.startsWith('/') ? path : '/' + path;
-      const fullUrl = url.split('?')[0] + '?t=' + timestamp;
+      data = JSON.parse(event.data);
+    } catch (e) {
+      err('[' + label + '] HMR message error', e);
+      return;
+    }
 
-      log('[' + label + '] HMR update:', path);
+    if (data.type === 'error') {
+      err('[' + label + '] ' + data.err.message + (data.err.frame ? '\\n' + data.err.frame : ''));
+      emit('mini-dev:error', data);
+      showOverlay(data.err);
+      return;
+    }
+    if (data.type === 'custom') {
+      emit(data.event, data.data);
+      return;
+    }
+    if (data.type === 'prune') {
+      emit('mini-dev:before-prune', data);
+      await prunePaths(data.paths);
+      return;
+    }
+    if (data.type === 'full-reload') {
+      if (data.path) {
+        const page = location.pathname;
+        const dir = data.path.endsWith('/index.html') ? data.path.slice(0, -'index.html'.length) : null;
+        if (page !== data.path && page !== dir) return;
+      }
+      emit('mini-dev:before-full-reload', data);
+      log('[' + label + '] Page reload');
+      location.reload();
+      return;
+    }
+    if (data.type !== 'update') return;
 
+    emit('mini-dev:before-update', data);
+    for (const update of data.updates) {
       try {
-        if (/\\.css(\\?|$)/.test(url)) {
-          const pathPart = url.split('?')[0];
-          for (const link of document.querySelectorAll('link[rel="stylesheet"]')) {
-            if (link.href && link.href.includes(pathPart)) {
-              link.href = link.href.replace(/[?&]t=\\d+/, '').replace(/([?&])$/, '') + (link.href.includes('?') ? '&' : '?') + 't=' + timestamp;
-            }
-          }
-          log('[' + label + '] CSS updated:', path);
-          return;
-        }
-        const list = acceptors.get(url);
-        if (list && list.length > 0) {
-          const newModule = await import(/* @vite-ignore */ fullUrl);
-          for (const { callback } of list) { callback(newModule); }
-          log('[' + label + '] Module updated:', path);
-        } else {
-          const entry = getEntryUrl();
-          if (entry) {
-            await import(/* @vite-ignore */ entry.split('?')[0] + '?t=' + timestamp);
-            log('[' + label + '] App refreshed:', entry);
-          } else {
-            location.reload();
-          }
-        }
-      } catch (err) {
-        err('[' + label + '] HMR failed for', path, err);
-        location.reload();
+        if (update.type === 'css-update') applyCssUpdate(update);
+        else await applyUpdate(update);
+      } catch (e) {
+        err('[' + label + '] HMR failed for', update.acceptedPath, e);
+        const payload = { message: e && e.message ? e.message : String(e), stack: e && e.stack, id: update.acceptedPath };
+        emit('mini-dev:error', { type: 'error', err: payload });
+        // Keep a server-reported transform error, which explains a failed re-import better
+        if (!overlayEl) showOverlay(payload);
+        return;
       }
-    } catch (err) {
-      err('[' + label + '] HMR message error', err);
     }
+    clearOverlay();
+    emit('mini-dev:after-update', data);
   };
 })();
 `.trim();
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { parseHeadersFile, parseRedirectsFile, headersFor, findRedirect } from './host-rules.js';
+
+describe('parseHeadersFile', () => {
+  it('reads path blocks with indented headers', () => {
+    const rules = parseHeadersFile(
+      '# security\n/*\n  X-Frame-Options: DENY\n  Link: </a.css>; rel=preload\n  Link: </b.js>; rel=preload\n\n/assets/*\n  Cache-Control: public, max-age=31536000\n'
+    );
+    expect(rules).toEqual([
+      { path: '/*', headers: { 'X-Frame-Options': 'DENY', Link: '</a.css>; rel=preload, </b.js>; rel=preload' } },
+      { path: '/assets/*', headers: { 'Cache-Control': 'public, max-age=31536000' } },
+    ]);
+    expect(headersFor(rules, '/assets/app.js')).toEqual({
+      'X-Frame-Options': 'DENY',
+      Link: '</a.css>; rel=preload, </b.js>; rel=preload',
+      'Cache-Control': 'public, max-age=31536000',
+    });
+    expect(headersFor(rules, '/index.html')).not.toHaveProperty('Cache-Control');
+  });
+});
+
+describe('parseRedirectsFile', () => {
+  const rules = parseRedirectsFile(`
+# legacy
+/old            /new
+/blog/:year/:slug  /posts/:slug?y=:year  302
+/docs/*         /documentation/:splat  301!
+/store id=:id   /products/:id  301
+/app/*          /app/index.html  200
+`);
+
+  it('parses status, force and query conditions', () => {
+    expect(rules[0]).toEqual({ from: '/old', to: '/new', status: 301, force: false });
+    expect(rules[2]).toMatchObject({ status: 301, force: true });
+    expect(rules[3]).toMatchObject({ from: '/store', to: '/products/:id', query: { id: ':id' } });
+  });
+
+  it('fills placeholders and splats', () => {
+    const none = new URLSearchParams();
+    expect(findRedirect(rules, '/blog/2024/hello', none, false)?.to).toBe('/posts/hello?y=2024');
+    expect(findRedirect(rules, '/docs/guide/intro', none, false)?.to).toBe('/documentation/guide/intro');
+    expect(findRedirect(rules, '/store', new URLSearchParams('id=7'), false)?.to).toBe('/products/7');
+    expect(findRedirect(rules, '/store', none, false)).toBeNull();
+    expect(findRedirect(rules, '/OLD/', none, false)?.to).toBe('/new');
+  });
+
+  it('keeps segments with malformed percent-encoding as they are', () => {
+    const none = new URLSearchParams();
+    expect(findRedirect(rules, '/blog/2024/%E0%A4%A', none, false)?.to).toBe('/posts/%E0%A4%A?y=2024');
+  });
+
+  it('lets existing files shadow rules that are not forced', () => {
+    const none = new URLSearchParams();
+    expect(findRedirect(rules, '/old', none, true)).toBeNull();
+    expect(findRedirect(rules, '/docs/a', none, true)?.to).toBe('/documentation/a');
+  });
+});
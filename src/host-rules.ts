@@ -0,0 +1,128 @@
+import type { RedirectRule } from './types.js';
+
+/** Header rule from `_headers` or the `headers` option. */
+export interface HeaderRule {
+  path: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * Netlify-style `_headers`: a path pattern on its own line, followed by indented `Name: value`
+ * lines. Repeated names are joined with `, `; `#` starts a comment.
+ */
+export function parseHeadersFile(text: string): HeaderRule[] {
+  const rules: HeaderRule[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+    if (!/^\s/.test(line)) {
+      rules.push({ path: line.trim(), headers: {} });
+      continue;
+    }
+    const colon = line.indexOf(':');
+    const rule = rules[rules.length - 1];
+    if (!rule || colon === -1) continue;
+    const name = line.slice(0, colon).trim();
+    const value = line.slice(colon + 1).trim();
+    rule.headers[name] = rule.headers[name] ? `${rule.headers[name]}, ${value}` : value;
+  }
+  return rules;
+}
+
+/**
+ * Netlify-style `_redirects`: `from [key=value…] to [status][!]` per line. Query parameters
+ * between `from` and `to` must be present in the request; conditions after the status
+ * (`Country=…`, `Role=…`) are ignored, since a preview has no geo or identity data.
+ */
+export function parseRedirectsFile(text: string): RedirectRule[] {
+  const rules: RedirectRule[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const tokens = line.replace(/#.*/, '').trim().split(/\s+/).filter(Boolean);
+    if (tokens.length < 2) continue;
+    const [from] = tokens;
+    const query: Record<string, string> = {};
+    let i = 1;
+    for (; i < tokens.length - 1 && /^[^/][^=]*=/.test(tokens[i]) && !/^https?:/.test(tokens[i]); i++) {
+      const eq = tokens[i].indexOf('=');
+      query[tokens[i].slice(0, eq)] = tokens[i].slice(eq + 1);
+    }
+    const to = tokens[i];
+    const status = /^(\d{3})(!?)$/.exec(tokens[i + 1] ?? '');
+    rules.push({
+      from,
+      to,
+      status: status ? Number(status[1]) : 301,
+      force: status?.[2] === '!',
+      ...(Object.keys(query).length > 0 && { query }),
+    });
+  }
+  return rules;
+}
+
+/** Headers of every rule matching `pathname`, later rules winning. */
+export function headersFor(rules: HeaderRule[], pathname: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const rule of rules) {
+    if (matchPattern(rule.path, pathname)) Object.assign(headers, rule.headers);
+  }
+  return headers;
+}
+
+/**
+ * First redirect rule for a request, with `:placeholders` and `:splat` filled into its target.
+ * Rules without `force` only apply when no file exists at the path (`hasFile`).
+ */
+export function findRedirect(
+  rules: RedirectRule[],
+  pathname: string,
+  search: URLSearchParams,
+  hasFile: boolean
+): { rule: RedirectRule; to: string } | null {
+  for (const rule of rules) {
+    if (hasFile && !rule.force) continue;
+    const params = matchPattern(rule.from, pathname);
+    if (!params) continue;
+    const query = Object.entries(rule.query ?? {});
+    if (!query.every(([key, value]) => search.has(key) && (value.startsWith(':') || search.get(key) === value))) continue;
+    for (const [key, value] of query) {
+      if (value.startsWith(':')) params[value.slice(1)] = search.get(key)!;
+    }
+    const to = rule.to.replace(/:(\w+)/g, (placeholder, name: string) => params[name] ?? placeholder);
+    return { rule, to };
+  }
+  return null;
+}
+
+/**
+ * Match `/news/:year/*` style patterns: `:name` is one segment, a trailing `*` the rest
+ * (as `splat`). Static segments ignore case, and a trailing slash never matters.
+ */
+function matchPattern(pattern: string, pathname: string): Record<string, string> | null {
+  const trim = (p: string) => (p.length > 1 ? p.replace(/\/+$/, '') : p);
+  const patternParts = trim(pattern).split('/');
+  const pathParts = trim(pathname).split('/');
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternParts.length; i++) {
+    const part = patternParts[i];
+    if (part === '*' && i === patternParts.length - 1) {
+      params.splat = pathParts.slice(i).join('/');
+      return params;
+    }
+    if (i >= pathParts.length) return null;
+    if (part.startsWith(':')) {
+      if (!pathParts[i]) return null;
+      params[part.slice(1)] = decodeSegment(pathParts[i]);
+    } else if (part.toLowerCase() !== pathParts[i].toLowerCase()) {
+      return null;
+    }
+  }
+  return patternParts.length === pathParts.length ? params : null;
+}
+
+/** A path segment decoded, or as it is when its percent-encoding is malformed. */
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * HMR types shared by the server and browser code. Kept free of Node imports so
+ * `@farming-labs/mini-dev/client` can be used in browser tsconfigs.
+ */
+
+/**
+ * A single module update: `path` is the HMR boundary that re-imports `acceptedPath`.
+ */
+export interface HMRUpdate {
+  type: 'js-update' | 'css-update';
+  path: string;
+  acceptedPath: string;
+  timestamp: number;
+}
+
+/**
+ * WebSocket message types for HMR.
+ */
+export interface HMRUpdateMessage {
+  type: 'update';
+  updates: HMRUpdate[];
+}
+
+/** Reload the page. `path` is set for HTML changes so only that page reloads. */
+export interface HMRFullReloadMessage {
+  type: 'full-reload';
+  path?: string;
+}
+
+/** Modules no longer imported by anything; their `prune` and `dispose` callbacks run. */
+export interface HMRPruneMessage {
+  type: 'prune';
+  paths: string[];
+}
+
+/** Custom event sent by a plugin; delivered to `import.meta.hot.on(event, cb)` listeners. */
+export interface HMRCustomMessage {
+  type: 'custom';
+  event: string;
+  data?: unknown;
+}
+
+/** Transform or runtime error shown in the browser overlay. */
+export interface HMRErrorPayload {
+  message: string;
+  stack?: string;
+  /** Module id or request path that failed */
+  id?: string;
+  /** Absolute path of the file with the error */
+  file?: string;
+  /** 1-based line */
+  line?: number;
+  /** 1-based column */
+  column?: number;
+  /** Source excerpt with the error position marked */
+  frame?: string;
+  /** Plugin whose hook threw */
+  plugin?: string;
+}
+
+/** A request failed to transform; the client shows it in the error overlay. */
+export interface HMRErrorMessage {
+  type: 'error';
+  err: HMRErrorPayload;
+}
+
+export type HMRMessage =
+  | HMRUpdateMessage
+  | HMRFullReloadMessage
+  | HMRPruneMessage
+  | HMRCustomMessage
+  | HMRErrorMessage;
+
+/** Lifecycle events emitted by the HMR client, with their payloads. */
+export interface HotEventMap {
+  'mini-dev:before-update': HMRUpdateMessage;
+  'mini-dev:after-update': HMRUpdateMessage;
+  'mini-dev:before-full-reload': HMRFullReloadMessage;
+  'mini-dev:before-prune': HMRPruneMessage;
+  'mini-dev:invalidate': { path: string; message?: string };
+  'mini-dev:error': HMRErrorMessage;
+}
+
+/** Payload of a lifecycle event, or `P` (as the listener declares it) for custom events. */
+export type HotEventPayload<T extends string, P = unknown> = T extends keyof HotEventMap ? HotEventMap[T] : P;
+
+/** Exports of an updated module; pass `typeof import('./dep')` to `accept` for typed exports. */
+export type ModuleNamespace = Record<string, unknown>;
+
+/**
+ * `import.meta.hot` in modules served by the dev server. `undefined` outside the dev server,
+ * so guard calls with `import.meta.hot?.`.
+ */
+export interface HotContext {
+  /** Object persisted across versions of this module; write state in `dispose`, read it on re-run */
+  readonly data: Record<string, unknown>;
+  /** Accept updates to this module */
+  accept<M = ModuleNamespace>(cb?: (mod: M | undefined) => void): void;
+  /** Accept updates to a dependency, receiving its new version */
+  accept<M = ModuleNamespace>(dep: string, cb: (mod: M | undefined) => void): void;
+  /** Accept updates to several dependencies; only the updated one is defined in `mods` */
+  accept(deps: readonly string[], cb: (mods: Array<ModuleNamespace | undefined>) => void): void;
+  /** Clean up side effects before this module is replaced */
+  dispose(cb: (data: Record<string, unknown>) => void): void;
+  /** Clean up when this module is no longer imported after an update */
+  prune(cb: (data: Record<string, unknown>) => void): void;
+  /** Mark this module as not hot-updatable; updates reaching it reload the page */
+  decline(): void;
+  /** Give up on an update (e.g. from an accept callback) and propagate it to importers */
+  invalidate(message?: string): void;
+  /** Listen to a lifecycle or custom event; listeners are removed when the module is replaced */
+  on<T extends string, P = unknown>(event: T, cb: (payload: HotEventPayload<T, P>) => void): void;
+  off<T extends string, P = unknown>(event: T, cb: (payload: HotEventPayload<T, P>) => void): void;
+}
+
+declare global {
+  interface ImportMeta {
+    readonly hot?: HotContext;
+  }
+}
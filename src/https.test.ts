@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { X509Certificate, createPrivateKey } from 'node:crypto';
+import { mkdtemp, writeFile, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { generate } from 'selfsigned';
+import { generateCertificate, resolveHttpsOptions } from './https.js';
+
+describe('generateCertificate', () => {
+  it('creates a self-signed certificate for the given hosts', async () => {
+    const { key, cert } = await generateCertificate(['localhost', '127.0.0.1', '::1']);
+    const x509 = new X509Certificate(cert);
+    expect(x509.subjectAltName).toBe('DNS:localhost, IP Address:127.0.0.1, IP Address:0:0:0:0:0:0:0:1');
+    expect(x509.verify(x509.publicKey)).toBe(true);
+    expect(x509.checkPrivateKey(createPrivateKey(key))).toBe(true);
+    expect(new Date(x509.validTo).getTime()).toBeGreaterThan(Date.now() + 300 * 24 * 60 * 60 * 1000);
+  });
+});
+
+describe('resolveHttpsOptions', () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), 'mini-dev-https-'));
+    await writeFile(join(root, 'package.json'), '{}');
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('caches the generated certificate', async () => {
+    const first = await resolveHttpsOptions(true, root, '127.0.0.1');
+    const cached = await readFile(join(root, 'node_modules/.mini-dev/certs/cert.pem'), 'utf-8');
+    expect(first.cert).toBe(cached);
+    expect((await resolveHttpsOptions(true, root, '127.0.0.1')).cert).toBe(cached);
+    // A new host name is not covered by the cached certificate
+    const renamed = await resolveHttpsOptions(true, root, 'dev.local');
+    expect(new X509Certificate(renamed.cert as string).subjectAltName).toContain('DNS:dev.local');
+  });
+
+  it('replaces a cached certificate that expires within a day', async () => {
+    const soon = await generate(undefined, {
+      keyType: 'ec',
+      notAfterDate: new Date(Date.now() + 60 * 60 * 1000),
+      extensions: [{ name: 'subjectAltName', altNames: [{ type: 2, value: 'localhost' }, { type: 7, ip: '127.0.0.1' }] }],
+    });
+    await writeFile(join(root, 'node_modules/.mini-dev/certs/key.pem'), soon.private);
+    await writeFile(join(root, 'node_modules/.mini-dev/certs/cert.pem'), soon.cert);
+    const { cert } = await resolveHttpsOptions(true, root, 'localhost');
+    expect(cert).not.toBe(soon.cert);
+    expect(new Date(new X509Certificate(cert as string).validTo).getTime()).toBeGreaterThan(Date.now() + 300 * 24 * 60 * 60 * 1000);
+    expect(await readFile(join(root, 'node_modules/.mini-dev/certs/cert.pem'), 'utf-8')).toBe(cert);
+  });
+
+  it('reads configured key and cert files relative to root', async () => {
+    const { key, cert } = await generateCertificate(['localhost']);
+    await writeFile(join(root, 'key.pem'), key);
+    await writeFile(join(root, 'cert.pem'), cert);
+    const options = await resolveHttpsOptions({ key: 'key.pem', cert: 'cert.pem' }, root, '127.0.0.1');
+    expect(options.cert?.toString()).toBe(cert);
+    expect(options.key?.toString()).toBe(key);
+  });
+});
@@ -0,0 +1,103 @@
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { networkInterfaces } from 'node:os';
+import { X509Certificate } from 'node:crypto';
+import { isIP } from 'node:net';
+import type { ServerOptions } from 'node:https';
+import { generate } from 'selfsigned';
+import { findPackageScope } from './resolve.js';
+import type { HttpsOptions } from './types.js';
+
+/**
+ * TLS options for `https.createServer` from the `https` option: the configured key/cert or pfx
+ * files (relative to `root`), or for `true` a self-signed certificate for localhost and the
+ * machine's network addresses, cached in `node_modules/.mini-dev/certs` until it expires or
+ * the addresses change.
+ */
+export async function resolveHttpsOptions(https: true | HttpsOptions, root: string, host: string): Promise<ServerOptions> {
+  if (https !== true && (https.pfx || https.cert || https.key)) {
+    const read = (file: string | undefined) => (file ? readFile(resolve(root, file)) : undefined);
+    const [key, cert, pfx] = await Promise.all([read(https.key), read(https.cert), read(https.pfx)]);
+    return { key, cert, pfx, passphrase: https.passphrase };
+  }
+
+  const hosts = certificateHosts(host);
+  const dir = join(findPackageScope(root) ?? root, 'node_modules', '.mini-dev', 'certs');
+  const keyFile = join(dir, 'key.pem');
+  const certFile = join(dir, 'cert.pem');
+  if (existsSync(keyFile) && existsSync(certFile)) {
+    const [key, cert] = await Promise.all([readFile(keyFile, 'utf-8'), readFile(certFile, 'utf-8')]);
+    if (certificateCovers(cert, hosts)) return { key, cert };
+  }
+  const { key, cert } = await generateCertificate(hosts);
+  try {
+    await mkdir(dir, { recursive: true });
+    await writeFile(keyFile, key, { mode: 0o600 });
+    await writeFile(certFile, cert);
+  } catch {
+    // Not cached: a new certificate is generated on the next start
+  }
+  return { key, cert };
+}
+
+/** `localhost`, loopback and non-internal interface addresses, plus a custom `host` name. */
+function certificateHosts(host: string): string[] {
+  const hosts = new Set(['localhost', '127.0.0.1', '::1']);
+  for (const addrs of Object.values(networkInterfaces())) {
+    for (const addr of addrs ?? []) {
+      if (!addr.internal) hosts.add(addr.address);
+    }
+  }
+  if (host !== '0.0.0.0' && host !== '::') hosts.add(host);
+  return [...hosts];
+}
+
+/** Whether a cached certificate is valid for another day and names every host. */
+function certificateCovers(pem: string, hosts: string[]): boolean {
+  try {
+    const cert = new X509Certificate(pem);
+    if (new Date(cert.validTo).getTime() < Date.now() + 24 * 60 * 60 * 1000) return false;
+    const normalize = (h: string) => (isIP(h) === 6 ? expandIPv6(h).toLowerCase() : h);
+    const names = (cert.subjectAltName ?? '').split(', ').map((entry) => normalize(entry.slice(entry.indexOf(':') + 1)));
+    return hosts.every((h) => names.includes(normalize(h)));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A self-signed P-256 certificate (PEM) valid for one year, with `hosts` (DNS names and IP
+ * addresses) as subject alternative names. Browsers show a warning for it until it is trusted.
+ */
+export async function generateCertificate(hosts: string[]): Promise<{ key: string; cert: string }> {
+  const now = Date.now();
+  const pems = await generate([{ name: 'commonName', value: 'mini-dev localhost' }], {
+    keyType: 'ec',
+    curve: 'P-256',
+    algorithm: 'sha256',
+    // Tolerate a clock that is a little behind
+    notBeforeDate: new Date(now - 60 * 60 * 1000),
+    notAfterDate: new Date(now + 365 * 24 * 60 * 60 * 1000),
+    extensions: [
+      { name: 'basicConstraints', cA: false },
+      { name: 'extKeyUsage', serverAuth: true },
+      {
+        name: 'subjectAltName',
+        altNames: hosts.map((h) => (isIP(h) ? { type: 7 as const, ip: h } : { type: 2 as const, value: h })),
+      },
+    ],
+  });
+  return { key: pems.private, cert: pems.cert };
+}
+
+/** `::1` → `0000:0000:...:0001`, the form used in certificates. */
+function expandIPv6(address: string): string {
+  const [head, tail = ''] = address.split('::');
+  const headParts = head ? head.split(':') : [];
+  const tailParts = tail ? tail.split(':') : [];
+  const parts = address.includes('::')
+    ? [...headParts, ...Array(8 - headParts.length - tailParts.length).fill('0'), ...tailParts]
+    : headParts;
+  return parts.map((p) => p.padStart(4, '0')).join(':');
+}
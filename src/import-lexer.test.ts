@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { parseImports } from './import-lexer.js';
+
+const specifiers = async (code: string) => (await parseImports(code)).imports.map((imp) => [imp.kind, imp.specifier]);
+
+describe('parseImports', () => {
+  it('finds static imports and re-exports', async () => {
+    const code = [
+      "import a from './a';",
+      'import b, { c as d } from "./b";',
+      "import * as ns from './ns';",
+      "import './side-effect.css';",
+      "export * from './all';",
+      "export * as all from './all-ns';",
+      "export { x, y as z } from './named';",
+      'export { local };',
+      "import from from './from';",
+      "import {\n  multi,\n  line,\n} from './multi';",
+    ].join('\n');
+    expect(await specifiers(code)).toEqual([
+      ['static', './a'],
+      ['static', './b'],
+      ['static', './ns'],
+      ['static', './side-effect.css'],
+      ['static', './all'],
+      ['static', './all-ns'],
+      ['static', './named'],
+      ['static', './from'],
+      ['static', './multi'],
+    ]);
+  });
+
+  it('reports exact specifier ranges', async () => {
+    const code = "import x from './x';\nimport('./y');";
+    for (const imp of (await parseImports(code)).imports) {
+      expect(code.slice(imp.start, imp.end)).toBe(imp.specifier);
+    }
+  });
+
+  it('finds dynamic imports, including multi-line and template literal ones', async () => {
+    const code = "import('./a');\nimport(\n  './b'\n);\nimport(`./c`);\nimport(`./${name}.js`);\nimport(path);";
+    expect(await specifiers(code)).toEqual([
+      ['dynamic', './a'],
+      ['dynamic', './b'],
+      ['dynamic', './c'],
+      ['dynamic', null],
+      ['dynamic', null],
+    ]);
+  });
+
+  it('ignores imports in strings, comments, templates, regexes and property names', async () => {
+    const code = [
+      `const s = "import x from './str'";`,
+      "// import y from './line-comment'",
+      "/* export * from './block-comment' */",
+      "const t = `import('./template') ${ cond ? 'import(\"./nested\")' : `x` }`;",
+      "const r = /import('.\\/regex')/g, q = a / b / c;",
+      "obj.import('./method');",
+      "const o = { import: './key' };",
+      "if (ok) /import('.\\/after-if')/.test(s);",
+      "import real from './real';",
+    ].join('\n');
+    expect(await specifiers(code)).toEqual([['static', './real']]);
+  });
+
+  it('tells regular expressions from division', async () => {
+    const code = [
+      "const half = total / 2; import('./after-division');",
+      "const re = /'/; import('./after-quote-regex');",
+      "const ratio = (a) / b / c; import('./after-paren-division');",
+      "const r = x => /import('.\\/arrow-regex')/;",
+      "const n = a++ / 2; import('./after-increment');",
+    ].join('\n');
+    expect(await specifiers(code)).toEqual([
+      ['dynamic', './after-division'],
+      ['dynamic', './after-quote-regex'],
+      ['dynamic', './after-paren-division'],
+      ['dynamic', './after-increment'],
+    ]);
+  });
+
+  it('skips nested template literals but finds imports in their substitutions', async () => {
+    const code = [
+      "const t = `outer ${`inner ${`deep import('./deep')`} import('./inner')`} import('./outer')`;",
+      'const u = `${await import(\'./in-substitution\')}`;',
+      "import('./after-templates');",
+    ].join('\n');
+    expect(await specifiers(code)).toEqual([
+      ['dynamic', './in-substitution'],
+      ['dynamic', './after-templates'],
+    ]);
+  });
+
+  it('ignores dynamic imports and import.meta in comments and strings', async () => {
+    const code = [
+      "// import('./line')",
+      "/* import('./block'); import.meta.hot.accept('./block-dep') */",
+      `const s = "import('./double')", q = 'import.meta.hot.accept()';`,
+      "console.log(import.meta.url, import.meta.env);",
+      "import.meta.hot.accept('./real-dep');",
+    ].join('\n');
+    const parsed = await parseImports(code);
+    expect(parsed.imports).toEqual([]);
+    expect(parsed.hot.map((call) => call.deps.map((d) => d.specifier))).toEqual([['./real-dep']]);
+  });
+
+  it('decodes escapes in specifiers', async () => {
+    expect(await specifiers("import x from './it\\u0027s';")).toEqual([['static', "./it's"]]);
+  });
+
+  it('rejects source that is not JavaScript', async () => {
+    await expect(parseImports('import { from "./x";')).rejects.toThrow();
+  });
+
+  it('finds new URL() asset references', async () => {
+    expect(await specifiers("const logo = new URL('./logo.png', import.meta.url).href;")).toEqual([['url', './logo.png']]);
+    expect(await specifiers("new URL('./logo.png', base);")).toEqual([]);
+    expect(await specifiers("new URL('./logo.png', import.meta.env.BASE);")).toEqual([]);
+  });
+
+  it('finds import.meta.hot accept and decline calls', async () => {
+    const code = [
+      'import.meta.hot.accept();',
+      "import.meta.hot?.accept('./dep', (mod) => {});",
+      "import.meta.hot.accept(['./a', \"./b\"], () => {});",
+      'import.meta.hot.decline();',
+      "// import.meta.hot.accept('./commented')",
+    ].join('\n');
+    expect((await parseImports(code)).hot.map((call) => [call.method, call.deps.map((d) => d.specifier)])).toEqual([
+      ['accept', []],
+      ['accept', ['./dep']],
+      ['accept', ['./a', './b']],
+      ['decline', []],
+    ]);
+  });
+});
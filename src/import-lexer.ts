@@ -0,0 +1,132 @@
+import { init, parse } from 'es-module-lexer';
+
+/** An import specifier found in module source. */
+export interface ParsedImport {
+  /** Specifier with escapes decoded, or `null` when a dynamic import's argument is not a plain string */
+  specifier: string | null;
+  /**
+   * Offsets of the specifier inside its quotes; for a non-literal dynamic import both are the
+   * offset of the argument
+   */
+  start: number;
+  end: number;
+  /**
+   * `static` for `import` / `export ... from`, `dynamic` for `import()`, `url` for
+   * `new URL('./file', import.meta.url)` asset references
+   */
+  kind: 'static' | 'dynamic' | 'url';
+}
+
+/** An `import.meta.hot.accept()` or `import.meta.hot.decline()` call. */
+export interface HotCall {
+  method: 'accept' | 'decline';
+  /** Dependencies passed as a string or an array of strings; empty when the module accepts itself */
+  deps: Array<{ specifier: string; start: number; end: number }>;
+}
+
+export interface ParsedModule {
+  imports: ParsedImport[];
+  hot: HotCall[];
+}
+
+const HOT_CALL_RE = /import\s*\.\s*meta\s*\.\s*hot\s*\??\.\s*(accept|decline)\s*\(/y;
+/** `new URL('./file', ` right before an `import.meta`, which must then read `.url` */
+const NEW_URL_RE = /new\s+URL\s*\(\s*(['"`])([^'"`\\$\n]*)\1\s*,\s*$/;
+const META_URL_RE = /import\s*\.\s*meta\s*\.\s*url\s*[,)]/y;
+/** How far before an `import.meta` to look for `new URL(` */
+const NEW_URL_WINDOW = 512;
+
+/**
+ * Find the imports of a JavaScript module with es-module-lexer: `import` / `export ... from`
+ * statements and `import()` calls, plus the `new URL(..., import.meta.url)` references and
+ * `import.meta.hot` calls at its `import.meta` positions, in source order. Strings, comments,
+ * templates and regular expressions are told apart the way a parser does. Rejects with the
+ * lexer's error for source that is not valid JavaScript.
+ */
+export async function parseImports(code: string): Promise<ParsedModule> {
+  await init;
+  const imports: ParsedImport[] = [];
+  const hot: HotCall[] = [];
+  for (const imp of parse(code)[0]) {
+    if (imp.d === -1) {
+      imports.push({ specifier: imp.n ?? code.slice(imp.s, imp.e), start: imp.s, end: imp.e, kind: 'static' });
+    } else if (imp.d >= 0) {
+      // s..e is the whole argument, quotes included
+      const literal = readLiteral(code, imp.s);
+      if (literal && literal.end + 1 === imp.e) {
+        imports.push({ ...literal, specifier: imp.n ?? literal.specifier, kind: 'dynamic' });
+      } else {
+        imports.push({ specifier: null, start: imp.s, end: imp.s, kind: 'dynamic' });
+      }
+    } else if (imp.d === -2) {
+      readImportMeta(code, imp.s, imports, hot);
+    }
+  }
+  return { imports, hot };
+}
+
+/** Record what the `import.meta` at `start` is used for: `new URL(..., import.meta.url)` or a `hot` call. */
+function readImportMeta(code: string, start: number, imports: ParsedImport[], hot: HotCall[]): void {
+  HOT_CALL_RE.lastIndex = start;
+  const call = HOT_CALL_RE.exec(code);
+  if (call) {
+    hot.push({ method: call[1] as HotCall['method'], deps: readHotDeps(code, HOT_CALL_RE.lastIndex) });
+    return;
+  }
+  META_URL_RE.lastIndex = start;
+  if (!META_URL_RE.test(code)) return;
+  const from = Math.max(0, start - NEW_URL_WINDOW);
+  const m = NEW_URL_RE.exec(code.slice(from, start));
+  if (!m) return;
+  const specStart = from + m.index + m[0].indexOf(m[1]) + 1;
+  imports.push({ specifier: m[2], start: specStart, end: specStart + m[2].length, kind: 'url' });
+}
+
+/** String (or an array of strings) passed to `hot.accept(` starting at `i`. */
+function readHotDeps(code: string, i: number): HotCall['deps'] {
+  i = skipSpace(code, i);
+  const single = readLiteral(code, i);
+  if (single) return [single];
+  if (code[i] !== '[') return [];
+  const deps: HotCall['deps'] = [];
+  for (i = skipSpace(code, i + 1); ; i = skipSpace(code, i + 1)) {
+    const dep = readLiteral(code, i);
+    if (!dep) break;
+    deps.push(dep);
+    i = skipSpace(code, dep.end + 1);
+    if (code[i] !== ',') break;
+  }
+  return deps;
+}
+
+/** A string literal (or a template literal without substitutions) at `i`; offsets exclude the quotes. */
+function readLiteral(code: string, i: number): { specifier: string; start: number; end: number } | null {
+  const quote = code[i];
+  if (quote !== '"' && quote !== "'" && quote !== '`') return null;
+  let end = i + 1;
+  while (end < code.length && code[end] !== quote && (code[end] !== '\n' || quote === '`')) {
+    end += code[end] === '\\' ? 2 : 1;
+  }
+  if (code[end] !== quote) return null;
+  const specifier = code.slice(i + 1, end);
+  if (quote === '`' && specifier.includes('${')) return null;
+  return { specifier, start: i + 1, end };
+}
+
+/** Offset of the next character that is not whitespace or inside a comment. */
+function skipSpace(code: string, i: number): number {
+  while (i < code.length) {
+    if (/\s/.test(code[i])) {
+      i++;
+    } else if (code.startsWith('//', i)) {
+      const end = code.indexOf('\n', i);
+      i = end === -1 ? code.length : end;
+    } else if (code.startsWith('/*', i)) {
+      const end = code.indexOf('*/', i + 2);
+      i = end === -1 ? code.length : end + 2;
+    } else {
+      break;
+    }
+  }
+  return i;
+}
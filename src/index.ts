@@ -14,8 +14,39 @@
 
 export { DevServer } from './dev-server.js';
 export { PreviewServer } from './preview-server.js';
+export { build } from './build.js';
+export { defineConfig } from './config.js';
 export { getEnv } from './env-client.js';
-export type { DevServerOptions, PreviewServerOptions, HMRMessage, ModuleInfo } from './types.js';
+export type {
+  DevServerOptions,
+  PreviewServerOptions,
+  BuildOptions,
+  BuildResult,
+  HMRMessage,
+  ModuleInfo,
+  ParsedImport,
+  Plugin,
+  PluginServerContext,
+  OptimizeDepsOptions,
+  ResolveOptions,
+  AliasEntry,
+  EsbuildTransformOptions,
+  HttpsOptions,
+  ProxyOptions,
+  ProxyConfig,
+  Middleware,
+  MiddlewareConfig,
+  MockOptions,
+  MockRequest,
+  MockHandler,
+  SpaOptions,
+  RedirectRule,
+  UserConfig,
+  UserConfigExport,
+  UserConfigFn,
+  ConfigEnv,
+} from './types.js';
+export type { HotContext, HotEventMap } from './hot-types.js';
 
 /**
  * Create and start a dev server.
@@ -26,10 +57,11 @@ export type { DevServerOptions, PreviewServerOptions, HMRMessage, ModuleInfo } f
 export async function createDevServer(options: import('./types.js').DevServerOptions = {}) {
   const { DevServer } = await import('./dev-server.js');
   const server = new DevServer(options);
-  const { port, url } = await server.start();
+  const { port, host, url } = await server.start();
   return {
     server,
     port,
+    host,
     url,
     async stop() {
       await server.stop();
@@ -43,10 +75,11 @@ export async function createDevServer(options: import('./types.js').DevServerOpt
 export async function createPreviewServer(options: import('./types.js').PreviewServerOptions = {}) {
   const { PreviewServer } = await import('./preview-server.js');
   const server = new PreviewServer(options);
-  const { port, url } = await server.start();
+  const { port, host, url } = await server.start();
   return {
     server,
     port,
+    host,
     url,
     async stop() {
       await server.stop();
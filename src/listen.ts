@@ -0,0 +1,38 @@
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+/**
+ * Bind `server` to `port` on `host`, moving on to the next port while one is in use unless
+ * `strictPort` is set (or the port is `0`, which lets the OS pick). Resolves with the address
+ * and port actually bound; rejects when none could be.
+ */
+export function listen(server: Server, port: number, host: string, strictPort: boolean): Promise<AddressInfo> {
+  return new Promise((resolve, reject) => {
+    const attempt = (candidate: number) => {
+      const onError = (err: NodeJS.ErrnoException) => {
+        server.off('listening', onListening);
+        if (err.code !== 'EADDRINUSE') return reject(err);
+        if (strictPort || candidate === 0) return reject(new Error(`Port ${candidate} is already in use`));
+        if (candidate >= 65535) return reject(new Error(`No free port found from ${port} upwards`));
+        attempt(candidate + 1);
+      };
+      const onListening = () => {
+        server.off('error', onError);
+        resolve(server.address() as AddressInfo);
+      };
+      server.once('error', onError);
+      server.once('listening', onListening);
+      server.listen(candidate, host);
+    };
+    attempt(port);
+  });
+}
+
+/**
+ * Host to put in a URL for a bound address: `localhost` for the wildcard and IPv4 loopback
+ * addresses (what the development certificate is issued for), IPv6 addresses in brackets.
+ */
+export function urlHost(address: string): string {
+  if (address === '0.0.0.0' || address === '::' || address === '127.0.0.1') return 'localhost';
+  return address.includes(':') ? `[${address}]` : address;
+}
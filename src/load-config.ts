@@ -1,54 +1,81 @@
-import { existsSync, mkdirSync } from 'node:fs';
-import { join } from 'node:path';
-import { tmpdir } from 'node:os';
+import { existsSync } from 'node:fs';
+import { rm } from 'node:fs/promises';
+import { basename, dirname, join, resolve } from 'node:path';
 import { pathToFileURL } from 'node:url';
-import { createRequire } from 'node:module';
-import { buildSync } from 'esbuild';
-import type { DevServerOptions } from './types.js';
+import { build } from 'esbuild';
+import { validateConfig } from './config.js';
+import type { ConfigEnv, UserConfig } from './types.js';
 
 const CONFIG_NAMES = ['mini-dev.config.ts', 'mini-dev.config.js', 'mini-dev.config.mjs', 'mini-dev.config.cjs'];
 
+export interface LoadedConfig {
+  /** Absolute path of the config file */
+  path: string;
+  config: UserConfig;
+  /** Local files the config imports, including itself; packages are not listed */
+  dependencies: string[];
+}
+
+let builds = 0;
+
 /**
- * Load config from mini-dev.config.{ts,js,mjs,cjs} in root.
+ * Load config from mini-dev.config.{ts,js,mjs,cjs} in root, or from `configFile` (relative to
+ * the working directory). A default export that is a function is called with `env`. Resolves
+ * `null` when there is no config file; rejects when it fails to load or has invalid options.
  * CLI args take precedence over config.
  */
-export async function loadConfig(root: string): Promise<Partial<DevServerOptions>> {
-  for (const name of CONFIG_NAMES) {
-    const configPath = join(root, name);
-    if (!existsSync(configPath)) continue;
+export async function loadConfig(root: string, env: ConfigEnv, configFile?: string): Promise<LoadedConfig | null> {
+  let configPath: string | undefined;
+  if (configFile) {
+    configPath = resolve(configFile);
+    if (!existsSync(configPath)) throw new Error(`Config file not found: ${configPath}`);
+  } else {
+    configPath = CONFIG_NAMES.map((name) => join(root, name)).find((path) => existsSync(path));
+    if (!configPath) return null;
+  }
 
-    try {
-      if (name.endsWith('.ts')) {
-        return await loadTsConfig(configPath);
-      }
-      if (name.endsWith('.cjs')) {
-        const require = createRequire(import.meta.url);
-        const mod = require(configPath);
-        return mod.default ?? mod;
-      }
-      const mod = await import(pathToFileURL(configPath).href + '?t=' + Date.now());
-      return mod.default ?? mod;
-    } catch (err) {
-      console.error(`[mini-dev] Failed to load config from ${name}:`, err);
-      return {};
-    }
+  let config: unknown;
+  let dependencies: string[];
+  try {
+    const bundled = await bundleConfig(configPath);
+    dependencies = bundled.dependencies;
+    const mod = await import(pathToFileURL(bundled.outfile).href).finally(() => rm(bundled.outfile, { force: true }));
+    config = mod.default ?? mod;
+    if (typeof config === 'function') config = await config(env);
+  } catch (err) {
+    throw new Error(`Failed to load config from ${basename(configPath)}: ${err instanceof Error ? err.message : err}`);
   }
-  return {};
+  validateConfig(config, basename(configPath));
+  return { path: configPath, config, dependencies };
 }
 
-async function loadTsConfig(configPath: string): Promise<Partial<DevServerOptions>> {
-  const outDir = join(tmpdir(), 'mini-dev');
-  mkdirSync(outDir, { recursive: true });
-  const outPath = join(outDir, 'config.mjs');
-
-  buildSync({
+/**
+ * Bundle the config and the local files it imports (packages stay external) into a file of
+ * its own next to it, so concurrent loads never overwrite each other and an edited import is
+ * never answered from the module cache.
+ */
+async function bundleConfig(configPath: string): Promise<{ outfile: string; dependencies: string[] }> {
+  const cjs = configPath.endsWith('.cjs');
+  const outDir = join(dirname(configPath), 'node_modules', '.mini-dev');
+  const outfile = join(outDir, `${basename(configPath)}.${process.pid}-${Date.now()}-${++builds}.${cjs ? 'cjs' : 'mjs'}`);
+  const fileUrl = pathToFileURL(configPath).href;
+  const result = await build({
     entryPoints: [configPath],
-    outfile: outPath,
-    format: 'esm',
+    outfile,
+    bundle: true,
+    packages: 'external',
     platform: 'node',
-    bundle: false,
+    format: cjs ? 'cjs' : 'esm',
+    metafile: true,
+    logLevel: 'silent',
+    // The bundle runs from another directory; paths relative to the config keep pointing the same way
+    define: {
+      'import.meta.url': JSON.stringify(fileUrl),
+      'import.meta.dirname': JSON.stringify(dirname(configPath)),
+      'import.meta.filename': JSON.stringify(configPath),
+      __dirname: JSON.stringify(dirname(configPath)),
+      __filename: JSON.stringify(configPath),
+    },
   });
-
-  const mod = await import(pathToFileURL(outPath).href + '?t=' + Date.now());
-  return mod.default ?? mod;
+  return { outfile, dependencies: Object.keys(result.metafile.inputs).map((input) => resolve(input)) };
 }
@@ -0,0 +1,50 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Middleware, MiddlewareConfig } from './types.js';
+
+/** `middlewares` option (list or `{ pre, post }`) → separate stacks. */
+export function normalizeMiddlewares(config: MiddlewareConfig | undefined): { pre: Middleware[]; post: Middleware[] } {
+  if (!config) return { pre: [], post: [] };
+  if (Array.isArray(config)) return { pre: [...config], post: [] };
+  return { pre: [...(config.pre ?? [])], post: [...(config.post ?? [])] };
+}
+
+/**
+ * Run Connect-style handlers in order. Resolves `false` when every handler called `next()`,
+ * `true` once one of them finished the response instead; rejects with the error passed to
+ * `next(err)` or thrown by a handler.
+ */
+export function runMiddlewares(stack: Middleware[], req: IncomingMessage, res: ServerResponse): Promise<boolean> {
+  if (stack.length === 0 || res.writableEnded) return Promise.resolve(res.writableEnded);
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const settle = (handled: boolean, err?: unknown) => {
+      if (settled) return;
+      settled = true;
+      res.off('finish', onEnd);
+      res.off('close', onEnd);
+      if (err !== undefined) reject(err);
+      else resolve(handled);
+    };
+    const onEnd = () => settle(true);
+    res.on('finish', onEnd);
+    res.on('close', onEnd);
+
+    const dispatch = (index: number) => {
+      if (settled) return;
+      if (index === stack.length) return settle(false);
+      let called = false;
+      const next = (err?: unknown) => {
+        if (called) return;
+        called = true;
+        if (err !== undefined && err !== null) settle(true, err);
+        else dispatch(index + 1);
+      };
+      try {
+        Promise.resolve(stack[index](req, res, next)).catch((err) => settle(true, err));
+      } catch (err) {
+        settle(true, err);
+      }
+    };
+    dispatch(0);
+  });
+}
@@ -0,0 +1,276 @@
+import { readFile, readdir, rm } from 'node:fs/promises';
+import { createHash } from 'node:crypto';
+import { join, relative, resolve, sep } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { build } from 'esbuild';
+import type { MockHandler, MockRequest } from './types.js';
+
+const MOCK_EXTS = ['.ts', '.mts', '.js', '.mjs', '.json'];
+const METHODS = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options'];
+
+/** Counts builds across instances: a restarted server's mocks must not reuse an imported file name */
+let builds = 0;
+
+interface MockRoute {
+  file: string;
+  /** Upper-case method, or `null` for any */
+  method: string | null;
+  pattern: RegExp;
+  params: string[];
+  /** Sort key: static segments before `[param]`, `[...rest]` last */
+  rank: number[];
+}
+
+/** Exports of a mock route module. */
+interface MockModule {
+  default?: MockHandler | unknown;
+  delay?: number;
+  status?: number;
+  headers?: Record<string, string>;
+}
+
+/**
+ * File-based mock API routes. A file's path below `dir` is its route: `api/users.ts` answers
+ * `/api/users`, `api/users/[id].get.ts` answers `GET /api/users/:id`, `api/[...path].ts` any
+ * path below `/api/`, and `index` files their directory. Script files are bundled with esbuild
+ * (packages stay external) into `outDir`, imported and removed again; `.json` files are sent as they are.
+ */
+export class MockApi {
+  private routes: Promise<MockRoute[]> | null = null;
+  private modules = new Map<string, Promise<MockModule>>();
+  /** Files bundled into the loaded mock modules */
+  private inputs = new Set<string>();
+
+  constructor(
+    readonly dir: string,
+    private outDir: string,
+    /** Milliseconds to wait before every response, unless a route exports its own `delay` */
+    private delay: number
+  ) {}
+
+  /** Answer `req` when a route matches `pathname`; resolves `false` otherwise. */
+  async handle(req: IncomingMessage, res: ServerResponse, pathname: string, search: string): Promise<boolean> {
+    const method = req.method ?? 'GET';
+    const match = await this.match(method, pathname);
+    if (!match) return false;
+    const { route, params } = match;
+    if (!params) {
+      sendBadRequest(res, `Malformed URL parameter in ${pathname}`);
+      return true;
+    }
+
+    if (route.file.endsWith('.json')) {
+      const json = await readFile(route.file);
+      await sleep(this.delay);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(json);
+      return true;
+    }
+
+    const mod = await this.load(route.file);
+    let body: unknown;
+    if (typeof mod.default === 'function') {
+      try {
+        body = await readBody(req);
+      } catch (err) {
+        if (!(err instanceof SyntaxError)) throw err;
+        sendBadRequest(res, `Invalid JSON body: ${err.message}`);
+        return true;
+      }
+    }
+    await sleep(mod.delay ?? this.delay);
+    res.statusCode = mod.status ?? 200;
+    for (const [name, value] of Object.entries(mod.headers ?? {})) res.setHeader(name, value);
+    let result = mod.default;
+    if (typeof result === 'function') {
+      const mockReq = Object.assign(req, {
+        params,
+        query: Object.fromEntries(new URLSearchParams(search)),
+        body,
+      }) as MockRequest;
+      result = await (result as MockHandler)(mockReq, res);
+    }
+    if (!res.writableEnded) sendResult(res, result);
+    return true;
+  }
+
+  /**
+   * Forget routes and modules affected by a changed, added or removed file. Returns `true`
+   * for files in the mock directory.
+   */
+  handleChange(file: string): boolean {
+    const inDir = isInside(this.dir, file);
+    if (inDir) this.routes = null;
+    if (inDir || this.inputs.has(file)) {
+      this.modules.clear();
+      this.inputs.clear();
+    }
+    return inDir;
+  }
+
+  /** Forget loaded routes and modules, once the bundles in progress are imported and removed. */
+  async close(): Promise<void> {
+    const pending = [...this.modules.values()];
+    this.routes = null;
+    this.modules.clear();
+    this.inputs.clear();
+    await Promise.allSettled(pending);
+  }
+
+  /** The route for `pathname` with its decoded params, or `null` params when one is not valid percent-encoding. */
+  private async match(
+    method: string,
+    pathname: string
+  ): Promise<{ route: MockRoute; params: Record<string, string> | null } | null> {
+    this.routes ??= scanRoutes(this.dir);
+    for (const route of await this.routes) {
+      if (route.method && route.method !== method && !(route.method === 'GET' && method === 'HEAD')) continue;
+      const m = route.pattern.exec(pathname);
+      if (!m) continue;
+      const params: Record<string, string> = {};
+      try {
+        route.params.forEach((name, i) => (params[name] = decodeURIComponent(m[i + 1])));
+      } catch (err) {
+        if (!(err instanceof URIError)) throw err;
+        return { route, params: null };
+      }
+      return { route, params };
+    }
+    return null;
+  }
+
+  private load(file: string): Promise<MockModule> {
+    let mod = this.modules.get(file);
+    if (!mod) {
+      mod = this.compile(file);
+      this.modules.set(file, mod);
+      // A failed build is retried on the next request
+      mod.catch(() => {
+        if (this.modules.get(file) === mod) this.modules.delete(file);
+      });
+    }
+    return mod;
+  }
+
+  private async compile(file: string): Promise<MockModule> {
+    // A new file name for every build, so the import is never answered from the module cache
+    const name = createHash('sha256').update(file).digest('hex').slice(0, 16);
+    const outfile = join(this.outDir, `${name}-${++builds}.mjs`);
+    const result = await build({
+      entryPoints: [file],
+      outfile,
+      bundle: true,
+      packages: 'external',
+      platform: 'node',
+      format: 'esm',
+      sourcemap: 'inline',
+      metafile: true,
+      logLevel: 'silent',
+    });
+    for (const input of Object.keys(result.metafile.inputs)) this.inputs.add(resolve(input));
+    try {
+      return await import(pathToFileURL(outfile).href);
+    } finally {
+      await rm(outfile, { force: true });
+    }
+  }
+}
+
+async function scanRoutes(dir: string): Promise<MockRoute[]> {
+  const files: string[] = [];
+  const walk = async (d: string) => {
+    for (const e of await readdir(d, { withFileTypes: true })) {
+      if (e.isDirectory()) await walk(join(d, e.name));
+      else if (e.isFile()) files.push(join(d, e.name));
+    }
+  };
+  try {
+    await walk(dir);
+  } catch {
+    return [];
+  }
+  const routes: MockRoute[] = [];
+  for (const file of files) {
+    const ext = MOCK_EXTS.find((e) => file.endsWith(e));
+    if (!ext || file.endsWith('.d.ts')) continue;
+    let path = relative(dir, file).slice(0, -ext.length).split(sep).join('/');
+    let method: string | null = null;
+    const dot = path.lastIndexOf('.');
+    if (dot > path.lastIndexOf('/') && METHODS.includes(path.slice(dot + 1).toLowerCase())) {
+      method = path.slice(dot + 1).toUpperCase();
+      path = path.slice(0, dot);
+    }
+    const segments = path.split('/');
+    if (segments[segments.length - 1] === 'index') segments.pop();
+
+    const params: string[] = [];
+    const rank: number[] = [];
+    let source = '';
+    for (const segment of segments) {
+      const dynamic = /^\[(\.\.\.)?([^\]]+)\]$/.exec(segment);
+      if (!dynamic) {
+        source += '/' + segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        rank.push(0);
+      } else {
+        params.push(dynamic[2]);
+        source += dynamic[1] ? '/(.+)' : '/([^/]+)';
+        rank.push(dynamic[1] ? 2 : 1);
+      }
+    }
+    routes.push({ file, method, pattern: new RegExp(`^${source}/?$`), params, rank });
+  }
+  routes.sort((a, b) => compareRanks(a.rank, b.rank) || Number(b.method !== null) - Number(a.method !== null));
+  return routes;
+}
+
+function compareRanks(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return b.length - a.length;
+}
+
+/** Request body as JSON, form fields or text; `undefined` when empty. */
+async function readBody(req: IncomingMessage): Promise<unknown> {
+  if (req.method === 'GET' || req.method === 'HEAD') return undefined;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString('utf-8');
+  if (!text) return undefined;
+  const type = req.headers['content-type'] ?? '';
+  if (type.includes('json')) return JSON.parse(text);
+  if (type.includes('application/x-www-form-urlencoded')) return Object.fromEntries(new URLSearchParams(text));
+  return text;
+}
+
+/** Answer a request whose URL or body the route cannot read. */
+function sendBadRequest(res: ServerResponse, message: string): void {
+  res.writeHead(400, { 'Content-Type': 'text/plain; charset=utf-8' });
+  res.end(message);
+}
+
+/** Strings are sent as text, buffers as they are, anything else as JSON. */
+function sendResult(res: ServerResponse, result: unknown): void {
+  if (result === undefined) {
+    res.end();
+  } else if (typeof result === 'string') {
+    if (!res.hasHeader('Content-Type')) res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+    res.end(result);
+  } else if (result instanceof Uint8Array) {
+    if (!res.hasHeader('Content-Type')) res.setHeader('Content-Type', 'application/octet-stream');
+    res.end(result);
+  } else {
+    if (!res.hasHeader('Content-Type')) res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(result));
+  }
+}
+
+function isInside(dir: string, file: string): boolean {
+  const rel = relative(dir, file);
+  return rel !== '' && !rel.startsWith('..') && !rel.startsWith(sep) && !/^[a-zA-Z]:/.test(rel);
+}
+
+function sleep(ms: number): Promise<void> {
+  return ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+}
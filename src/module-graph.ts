@@ -0,0 +1,145 @@
+import type { ModuleInfo } from './types.js';
+
+/** Virtual module ids are served under `/@id/`; `\0` is not URL-safe so it is encoded. */
+export function virtualIdToUrl(id: string): string {
+  return '/@id/' + id.replace(/\0/g, '__x00__');
+}
+
+export function urlToVirtualId(pathname: string): string {
+  return decodeURIComponent(pathname.slice('/@id/'.length)).replace(/__x00__/g, '\0');
+}
+
+/** An HMR boundary and the module it re-imports. */
+export interface HMRBoundary {
+  boundary: ModuleInfo;
+  acceptedVia: ModuleInfo;
+}
+
+/**
+ * Import graph of every module served through the transform pipeline, used to find
+ * HMR boundaries when a file changes.
+ */
+export class ModuleGraph {
+  private modules = new Map<string, ModuleInfo>();
+
+  get(id: string): ModuleInfo | undefined {
+    return this.modules.get(id);
+  }
+
+  ensure(id: string): ModuleInfo {
+    let mod = this.modules.get(id);
+    if (!mod) {
+      mod = {
+        id,
+        code: '',
+        etag: '',
+        timestamp: 0,
+        url: id.startsWith('/') ? id : virtualIdToUrl(id),
+        importers: new Set(),
+        imports: [],
+        importedModules: new Set(),
+        acceptedDeps: new Set(),
+        isSelfAccepting: false,
+        isDeclined: false,
+        lastHMRTimestamp: 0,
+      };
+      this.modules.set(id, mod);
+    }
+    return mod;
+  }
+
+  /** Modules backed by the given root-relative path (any query). */
+  getByPath(path: string): ModuleInfo[] {
+    const out: ModuleInfo[] = [];
+    for (const mod of this.modules.values()) {
+      if (mod.id.split('?')[0] === path) out.push(mod);
+    }
+    return out;
+  }
+
+  /**
+   * Record the result of transforming a module: its imports and HMR flags.
+   * Importer edges of modules it no longer imports are removed; returns those left without
+   * any importer (pruned).
+   */
+  updateModuleInfo(
+    mod: ModuleInfo,
+    info: Pick<ModuleInfo, 'imports' | 'importedModules' | 'acceptedDeps' | 'isSelfAccepting' | 'isDeclined'>
+  ): ModuleInfo[] {
+    const pruned: ModuleInfo[] = [];
+    for (const prevId of mod.importedModules) {
+      if (info.importedModules.has(prevId)) continue;
+      const prev = this.modules.get(prevId);
+      if (!prev) continue;
+      prev.importers.delete(mod.id);
+      if (prev.importers.size === 0) pruned.push(prev);
+    }
+    for (const depId of info.importedModules) {
+      this.ensure(depId).importers.add(mod.id);
+    }
+    mod.imports = info.imports;
+    mod.importedModules = info.importedModules;
+    mod.acceptedDeps = info.acceptedDeps;
+    mod.isSelfAccepting = info.isSelfAccepting;
+    mod.isDeclined = info.isDeclined;
+    return pruned;
+  }
+
+  /**
+   * Drop the served code of a module and of everything importing it (their import URLs carry
+   * the module's HMR timestamp), so they are transformed again on the next request.
+   */
+  invalidate(mod: ModuleInfo, seen = new Set<ModuleInfo>()): void {
+    if (seen.has(mod)) return;
+    seen.add(mod);
+    mod.etag = '';
+    for (const importerId of mod.importers) {
+      const importer = this.modules.get(importerId);
+      if (importer) this.invalidate(importer, seen);
+    }
+  }
+
+  invalidateAll(): void {
+    for (const mod of this.modules.values()) mod.etag = '';
+  }
+
+  /**
+   * Walk up from a changed module to the nearest modules that accept it.
+   * Returns `null` when some import chain reaches a module without importers (an entry),
+   * a module that declined updates, or loops back on itself, meaning the page must fully reload.
+   * `invalidated` collects every module between the change and its boundaries.
+   */
+  propagateUpdate(mod: ModuleInfo): { boundaries: HMRBoundary[]; invalidated: Set<ModuleInfo> } | null {
+    const boundaries: HMRBoundary[] = [];
+    const invalidated = new Set<ModuleInfo>();
+    const deadEnd = this.propagate(mod, boundaries, invalidated, [mod]);
+    return deadEnd ? null : { boundaries, invalidated };
+  }
+
+  private propagate(
+    mod: ModuleInfo,
+    boundaries: HMRBoundary[],
+    invalidated: Set<ModuleInfo>,
+    chain: ModuleInfo[]
+  ): boolean {
+    invalidated.add(mod);
+    if (mod.isDeclined) return true;
+    if (mod.isSelfAccepting) {
+      boundaries.push({ boundary: mod, acceptedVia: mod });
+      return false;
+    }
+    if (mod.importers.size === 0) return true;
+
+    for (const importerId of mod.importers) {
+      const importer = this.modules.get(importerId);
+      if (!importer) continue;
+      if (importer.acceptedDeps.has(mod.id)) {
+        boundaries.push({ boundary: importer, acceptedVia: mod });
+        continue;
+      }
+      if (chain.includes(importer)) return true;
+      if (this.propagate(importer, boundaries, invalidated, [...chain, importer])) return true;
+    }
+    return false;
+  }
+}
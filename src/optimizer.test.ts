@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { depFileName } from './optimizer.js';
+
+describe('depFileName', () => {
+  it('keeps common specifiers readable', () => {
+    expect(depFileName('react')).toBe('react');
+    expect(depFileName('react-dom/client')).toBe('react-dom_client');
+    expect(depFileName('@scope/pkg')).toBe('@scope_pkg');
+  });
+
+  it('never maps two specifiers to the same name', () => {
+    const specifiers = ['a/b_c', 'a_b/c', 'a/b/c', 'a_b_c', 'a~/b', 'a/~b', 'a~_b', 'a_~b'];
+    const names = specifiers.map(depFileName);
+    expect(new Set(names).size).toBe(specifiers.length);
+  });
+});
@@ -0,0 +1,366 @@
+import { readFile, writeFile, mkdir, rm } from 'node:fs/promises';
+import { existsSync, statSync } from 'node:fs';
+import { join, dirname, resolve, extname, basename } from 'node:path';
+import { createHash } from 'node:crypto';
+import { build as esbuild, type Metafile, type Plugin as EsbuildPlugin } from 'esbuild';
+import { init as initCjsLexer, parse as parseCjs } from 'cjs-module-lexer';
+import { findHtmlEntries, getAttr } from './build.js';
+import type { OptimizeDepsOptions } from './types.js';
+
+/** URL prefix optimized dependencies are served from. */
+export const DEPS_URL_PREFIX = '/@deps/';
+
+const LOCKFILES = ['package-lock.json', 'pnpm-lock.yaml', 'yarn.lock', 'bun.lock', 'bun.lockb'];
+
+/** Extensions followed while scanning for bare imports; anything else is skipped. */
+const SCAN_EXTS = new Set(['.ts', '.tsx', '.js', '.jsx', '.mjs', '.mts', '.cjs', '.cts']);
+
+const RESERVED = new Set(
+  (
+    'break case catch class const continue debugger default delete do else enum export extends false finally ' +
+    'for function if import in instanceof new null return super switch this throw true try typeof var void ' +
+    'while with yield let static implements interface package private protected public await arguments eval'
+  ).split(' ')
+);
+
+/** Contents of `node_modules/.mini-dev/_metadata.json`. */
+interface DepsMetadata {
+  /** Lockfile + config hash the bundles were built with */
+  hash: string;
+  /** Appended to dependency URLs as `?v=`, changes whenever the bundles are rebuilt */
+  browserHash: string;
+  /** Bare specifier → file name in `deps/` */
+  optimized: Record<string, string>;
+}
+
+/**
+ * Pre-bundles dependencies into single ESM files so CommonJS packages work in the browser and
+ * deep ESM packages load in one request. Bare imports are discovered by scanning the module
+ * scripts of every HTML page; imports found later trigger a re-bundle (and a page reload,
+ * since shared chunks change). Bundles are cached in `node_modules/.mini-dev` until the
+ * lockfile or the `optimizeDeps` config changes.
+ */
+export class DepOptimizer {
+  readonly cacheDir: string;
+  private metadata: DepsMetadata | null = null;
+  /** Dependencies that should be bundled: scanned, included and discovered at runtime */
+  private wanted = new Set<string>();
+  /** Dependencies esbuild could not bundle; served from node_modules as they are */
+  private failed = new Set<string>();
+  private queue: Promise<void> = Promise.resolve();
+  private closed = false;
+
+  constructor(
+    private root: string,
+    private options: OptimizeDepsOptions,
+    /** Conditions matched in package.json `exports`, as in the dev server */
+    private conditions: string[],
+    private version: string,
+    private log: (message: string) => void,
+    /** Called after dependencies discovered at runtime were bundled */
+    private onRebuild: () => void
+  ) {
+    this.cacheDir = join(root, 'node_modules', '.mini-dev');
+  }
+
+  /** Scan the app for bare imports, then reuse the cached bundles or rebuild them. */
+  async init(): Promise<void> {
+    this.closed = false;
+    for (const dep of this.options.include ?? []) this.wanted.add(dep);
+    for (const dep of await this.scan()) {
+      if (!this.isExcluded(dep)) this.wanted.add(dep);
+    }
+
+    const hash = await this.cacheHash();
+    const metadataPath = join(this.cacheDir, '_metadata.json');
+    if (!this.options.force && existsSync(metadataPath)) {
+      try {
+        const cached = JSON.parse(await readFile(metadataPath, 'utf-8')) as DepsMetadata;
+        const complete = Object.values(cached.optimized).every((file) => existsSync(join(this.cacheDir, 'deps', file)));
+        if (cached.hash === hash && complete && [...this.wanted].every((dep) => dep in cached.optimized)) {
+          this.metadata = cached;
+          for (const dep of Object.keys(cached.optimized)) this.wanted.add(dep);
+          return;
+        }
+      } catch {
+        /* corrupt metadata: rebuild */
+      }
+    }
+    if (this.wanted.size > 0) await this.optimize(hash);
+  }
+
+  /**
+   * URL of the bundled dependency for a bare specifier, or `null` when it is excluded or could
+   * not be bundled. A dependency seen for the first time is bundled before this resolves.
+   */
+  async resolve(specifier: string): Promise<string | null> {
+    if (this.isExcluded(specifier) || this.failed.has(specifier)) return null;
+    if (!this.wanted.has(specifier) && !this.closed) {
+      this.wanted.add(specifier);
+      this.queue = this.queue.then(async () => {
+        if (this.closed) return;
+        const before = this.metadata?.browserHash;
+        await this.optimize(await this.cacheHash());
+        if (this.metadata?.browserHash !== before) this.onRebuild();
+      });
+    }
+    await this.queue;
+    const file = this.metadata?.optimized[specifier];
+    return file ? `${DEPS_URL_PREFIX}${file}?v=${this.metadata!.browserHash}` : null;
+  }
+
+  /** Stop bundling newly discovered dependencies, once a bundle in progress is written. */
+  async close(): Promise<void> {
+    this.closed = true;
+    await this.queue.catch(() => {});
+  }
+
+  /** File on disk for a path under `/@deps/`, or `null`. */
+  file(pathname: string): string | null {
+    const name = pathname.slice(DEPS_URL_PREFIX.length);
+    if (!name || name.includes('/') || name.includes('..')) return null;
+    const file = join(this.cacheDir, 'deps', name);
+    return existsSync(file) && statSync(file).isFile() ? file : null;
+  }
+
+  private isExcluded(specifier: string): boolean {
+    return (this.options.exclude ?? []).some((ex) => specifier === ex || specifier.startsWith(ex + '/'));
+  }
+
+  /** Hash of the nearest lockfile, the `optimizeDeps` config, resolve conditions and the mini-dev version. */
+  private async cacheHash(): Promise<string> {
+    const hash = createHash('sha256');
+    hash.update(this.version);
+    hash.update(
+      JSON.stringify({ include: this.options.include ?? [], exclude: this.options.exclude ?? [], conditions: this.conditions })
+    );
+    for (let dir: string | null = this.root; dir; dir = dirname(dir) === dir ? null : dirname(dir)) {
+      const lockfile = LOCKFILES.map((name) => join(dir!, name)).find((file) => existsSync(file));
+      if (lockfile) {
+        hash.update(await readFile(lockfile));
+        break;
+      }
+    }
+    return hash.digest('hex').slice(0, 8);
+  }
+
+  /** Bare imports that resolve into node_modules, found from the module scripts of every HTML page. */
+  private async scan(): Promise<string[]> {
+    const entries = new Set<string>();
+    for (const htmlFile of await findHtmlEntries(this.root, join(this.root, 'dist'))) {
+      const html = await readFile(htmlFile, 'utf-8');
+      for (const m of html.matchAll(/<script\b([^>]*)>/gi)) {
+        const src = getAttr(m[1], 'src');
+        if (!src || getAttr(m[1], 'type') !== 'module' || /^([a-z]+:)?\/\//i.test(src)) continue;
+        const path = src.split(/[?#]/)[0];
+        const file = path.startsWith('/') ? this.rootFile(path) : resolve(dirname(htmlFile), path);
+        if (file && existsSync(file) && statSync(file).isFile()) entries.add(file);
+      }
+    }
+    if (entries.size === 0) return [];
+
+    const found = new Set<string>();
+    const root = this.root;
+    const rootFile = this.rootFile.bind(this);
+    const scanPlugin: EsbuildPlugin = {
+      name: 'mini-dev:scan',
+      setup(build) {
+        build.onResolve({ filter: /.*/ }, async (args) => {
+          if (args.kind === 'entry-point' || args.pluginData?.scanning) return undefined;
+          const path = args.path;
+          if (/^[\w@][^:]*$/.test(path)) {
+            const result = await build.resolve(path, {
+              kind: args.kind,
+              resolveDir: args.resolveDir,
+              pluginData: { scanning: true },
+            });
+            if (result.errors.length === 0 && /[\\/]node_modules[\\/]/.test(result.path)) found.add(path);
+            return { path, external: true };
+          }
+          if (path.includes(':')) return { path, external: true };
+          const ext = extname(path.split('?')[0]);
+          if (ext && !SCAN_EXTS.has(ext)) return { path, external: true };
+          // Absolute imports are relative to root in the browser
+          if (path.startsWith('/') && !existsSync(path)) {
+            const file = rootFile(path);
+            return file ? { path: file } : { path, external: true };
+          }
+          return undefined;
+        });
+      },
+    };
+    try {
+      await esbuild({
+        absWorkingDir: root,
+        entryPoints: [...entries],
+        bundle: true,
+        write: false,
+        format: 'esm',
+        logLevel: 'silent',
+        plugins: [scanPlugin],
+      });
+    } catch {
+      // Syntax errors are reported when the module is served; keep what was found
+    }
+    return [...found].sort();
+  }
+
+  /** Root-relative URL path → file, probing script extensions for extensionless paths. */
+  private rootFile(path: string): string | null {
+    const file = join(this.root, path.slice(1));
+    if (extname(file)) return file;
+    for (const ext of ['.tsx', '.ts', '.js']) {
+      if (existsSync(file + ext)) return file + ext;
+    }
+    return null;
+  }
+
+  /**
+   * Bundle every wanted dependency into `deps/`. CommonJS entries get a wrapper that re-exports
+   * `module.exports` keys as named exports, so `import { useState } from 'react'` works.
+   */
+  private async optimize(hash: string): Promise<void> {
+    let deps = [...this.wanted].sort();
+    const started = Date.now();
+    const depsDir = join(this.cacheDir, 'deps');
+    const names = new Map(deps.map((dep) => [dep, depFileName(dep)]));
+    const common = {
+      absWorkingDir: this.root,
+      bundle: true,
+      format: 'esm' as const,
+      platform: 'browser' as const,
+      target: 'es2020',
+      splitting: true,
+      outdir: depsDir,
+      entryNames: '[name]',
+      chunkNames: 'chunk-[hash]',
+      conditions: this.conditions,
+      define: { 'process.env.NODE_ENV': '"development"' },
+      logLevel: 'silent' as const,
+    };
+    // First pass finds which entries are CommonJS, without writing anything
+    const analyze = (entries: string[]) =>
+      esbuild({
+        ...common,
+        entryPoints: Object.fromEntries(entries.map((dep) => [names.get(dep)!, dep])),
+        write: false,
+        metafile: true,
+      });
+
+    try {
+      let analysis: Awaited<ReturnType<typeof analyze>>;
+      try {
+        analysis = await analyze(deps);
+      } catch (err) {
+        // Find the dependencies that break the bundle on their own, so the rest still get bundled
+        const failed: string[] = [];
+        for (const dep of deps) {
+          try {
+            await analyze([dep]);
+          } catch (depErr) {
+            failed.push(dep);
+            this.wanted.delete(dep);
+            this.failed.add(dep);
+            this.log(`could not bundle ${dep}, serving it from node_modules as-is: ${errorText(depErr)}`);
+          }
+        }
+        if (failed.length === 0) throw err;
+        deps = deps.filter((dep) => !failed.includes(dep));
+        // Nothing new to bundle: keep the current bundles, and the pages using them
+        const optimized = Object.keys(this.metadata?.optimized ?? {});
+        if (deps.length === optimized.length && deps.every((dep) => optimized.includes(dep))) return;
+        analysis = await analyze(deps);
+      }
+      const cjs = new Map<string, string[]>();
+      for (const [outPath, output] of Object.entries(analysis.metafile.outputs)) {
+        if (!output.entryPoint || analysis.metafile.inputs[output.entryPoint]?.format !== 'cjs') continue;
+        const dep = deps.find((d) => names.get(d) === basename(outPath, '.js'));
+        if (dep) cjs.set(dep, await this.cjsExportNames(output.entryPoint, analysis.metafile));
+      }
+
+      const cjsPlugin: EsbuildPlugin = {
+        name: 'mini-dev:cjs-entry',
+        setup(build) {
+          build.onResolve({ filter: /^mini-dev-cjs:/ }, (args) => ({
+            path: args.path.slice('mini-dev-cjs:'.length),
+            namespace: 'mini-dev-cjs',
+          }));
+          build.onLoad({ filter: /.*/, namespace: 'mini-dev-cjs' }, (args) => {
+            const exportNames = cjs.get(args.path) ?? [];
+            return {
+              contents:
+                `import * as m from ${JSON.stringify(args.path)};\nexport default m.default;\n` +
+                (exportNames.length > 0 ? `export const { ${exportNames.join(', ')} } = m;\n` : ''),
+              resolveDir: common.absWorkingDir,
+              loader: 'js',
+            };
+          });
+        },
+      };
+      await rm(depsDir, { recursive: true, force: true });
+      await esbuild({
+        ...common,
+        entryPoints: Object.fromEntries(
+          deps.map((dep) => [names.get(dep)!, cjs.has(dep) ? 'mini-dev-cjs:' + dep : dep])
+        ),
+        plugins: [cjsPlugin],
+      });
+    } catch (err) {
+      this.log(`dependency optimization failed, serving node_modules as-is: ${errorText(err)}`);
+      return;
+    }
+
+    const browserHash = createHash('sha256').update(hash + deps.join(',') + Date.now()).digest('hex').slice(0, 8);
+    this.metadata = {
+      hash,
+      browserHash,
+      optimized: Object.fromEntries(deps.map((dep) => [dep, names.get(dep) + '.js'])),
+    };
+    await mkdir(this.cacheDir, { recursive: true });
+    await writeFile(join(this.cacheDir, '_metadata.json'), JSON.stringify(this.metadata, null, 2));
+    this.log(`optimized dependencies in ${Date.now() - started}ms: ${deps.join(', ')}`);
+  }
+
+  /**
+   * Names a CommonJS module assigns to `exports`, read statically with cjs-module-lexer (as Node
+   * does) and followed through `module.exports = require(...)` re-exports, which esbuild already
+   * resolved with browser conditions. The package's code never runs in the dev server.
+   */
+  private async cjsExportNames(input: string, metafile: Metafile): Promise<string[]> {
+    await initCjsLexer();
+    const names = new Set<string>();
+    const seen = new Set<string>();
+    const visit = async (path: string) => {
+      if (seen.has(path)) return;
+      seen.add(path);
+      let parsed: { exports: string[]; reexports: string[] };
+      try {
+        parsed = parseCjs(await readFile(resolve(this.root, path), 'utf-8'));
+      } catch {
+        // Disabled by the browser field, or not parseable: no names from it
+        return;
+      }
+      for (const name of parsed.exports) names.add(name);
+      for (const specifier of parsed.reexports) {
+        const target = metafile.inputs[path]?.imports.find((imp) => imp.original === specifier)?.path;
+        if (target) await visit(target);
+      }
+    };
+    await visit(input);
+    return [...names].filter((key) => /^[A-Za-z_$][\w$]*$/.test(key) && !RESERVED.has(key) && key !== '__esModule');
+  }
+}
+
+/**
+ * File name (without extension) for a dependency's bundle: `/` becomes `_`, and a literal `_`
+ * or `~` is escaped with `~`, so no two specifiers share a name (`a/b_c` → `a_b~_c`,
+ * `a_b/c` → `a~_b_c`) while the usual ones read as before (`react-dom/client` → `react-dom_client`).
+ */
+export function depFileName(dep: string): string {
+  return dep.replace(/[~_/]/g, (char) => (char === '/' ? '_' : '~' + char));
+}
+
+/** First esbuild error message, or the error itself. */
+function errorText(err: unknown): string {
+  return (err as { errors?: Array<{ text: string }> }).errors?.[0]?.text ?? String(err);
+}
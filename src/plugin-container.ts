@@ -0,0 +1,94 @@
+import type { Plugin, PluginServerContext } from './types.js';
+
+/**
+ * Order plugins as documented on `DevServerOptions.plugins`:
+ * `pre` user plugins, built-ins, normal user plugins, `post` user plugins.
+ */
+export function sortPlugins(userPlugins: Plugin[], builtinPlugins: Plugin[]): Plugin[] {
+  const pre = userPlugins.filter((p) => p.enforce === 'pre');
+  const normal = userPlugins.filter((p) => !p.enforce);
+  const post = userPlugins.filter((p) => p.enforce === 'post');
+  return [...pre, ...builtinPlugins, ...normal, ...post];
+}
+
+function tagError(err: unknown, plugin: Plugin): never {
+  if (err instanceof Error) {
+    const tagged = err as Error & { plugin?: string };
+    tagged.plugin ??= plugin.name;
+    throw tagged;
+  }
+  throw new Error(`[${plugin.name}] ${String(err)}`);
+}
+
+/**
+ * Runs plugin hooks in order. Errors thrown by a hook get a `plugin` property naming the plugin.
+ */
+export class PluginContainer {
+  constructor(
+    /** In hook order, built-ins included */
+    readonly plugins: Plugin[]
+  ) {}
+
+  async configureServer(server: PluginServerContext): Promise<void> {
+    for (const plugin of this.plugins) {
+      if (!plugin.configureServer) continue;
+      try {
+        await plugin.configureServer(server);
+      } catch (err) {
+        tagError(err, plugin);
+      }
+    }
+  }
+
+  async resolveId(source: string, importer: string): Promise<string | null> {
+    for (const plugin of this.plugins) {
+      if (!plugin.resolveId) continue;
+      try {
+        const result = await plugin.resolveId(source, importer);
+        if (result != null) return result;
+      } catch (err) {
+        tagError(err, plugin);
+      }
+    }
+    return null;
+  }
+
+  async load(id: string): Promise<string | null> {
+    for (const plugin of this.plugins) {
+      if (!plugin.load) continue;
+      try {
+        const result = await plugin.load(id);
+        if (result != null) return typeof result === 'string' ? result : result.code;
+      } catch (err) {
+        tagError(err, plugin);
+      }
+    }
+    return null;
+  }
+
+  async transform(code: string, id: string): Promise<string> {
+    for (const plugin of this.plugins) {
+      if (!plugin.transform) continue;
+      try {
+        const result = await plugin.transform(code, id);
+        if (result != null) code = typeof result === 'string' ? result : result.code;
+      } catch (err) {
+        tagError(err, plugin);
+      }
+    }
+    return code;
+  }
+
+  async transformIndexHtml(html: string, ctx: { path: string }): Promise<string> {
+    for (const plugin of this.plugins) {
+      if (!plugin.transformIndexHtml) continue;
+      try {
+        const result = await plugin.transformIndexHtml(html, ctx);
+        if (result != null) html = result;
+      } catch (err) {
+        tagError(err, plugin);
+      }
+    }
+    return html;
+  }
+}
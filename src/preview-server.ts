@@ -1,14 +1,24 @@
-import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { createServer as createHttpsServer } from 'node:https';
 import { networkInterfaces } from 'node:os';
+import type { AddressInfo } from 'node:net';
 import { readFile, readdir } from 'node:fs/promises';
 import { existsSync, statSync } from 'node:fs';
 import { join, extname, dirname, resolve, relative } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { createRequire } from 'node:module';
+import type { Duplex } from 'node:stream';
 
 const require = createRequire(import.meta.url);
 const pkg = require(join(dirname(fileURLToPath(import.meta.url)), '../package.json'));
-import type { PreviewServerOptions, ProxyRule } from './types.js';
+import { resolveHttpsOptions } from './https.js';
+import { listen, urlHost } from './listen.js';
+import { normalizeMiddlewares, runMiddlewares } from './middleware.js';
+import { sendFile } from './static.js';
+import { parseHeadersFile, parseRedirectsFile, headersFor, findRedirect, type HeaderRule } from './host-rules.js';
+import { normalizeSpa, isHistoryFallback, findFallbackIndex } from './spa.js';
+import { normalizeProxy, findProxyRule, proxyRequest, proxyUpgrade, sendProxyError } from './proxy.js';
+import type { Middleware, PreviewServerOptions, ProxyRule, RedirectRule, SpaOptions } from './types.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
@@ -37,6 +47,12 @@ const MIME_TYPES: Record<string, string> = {
   '.txt': 'text/plain',
   '.xml': 'application/xml',
   '.webmanifest': 'application/manifest+json',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.wasm': 'application/wasm',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mp3': 'audio/mpeg',
 };
 
 /**
@@ -45,18 +61,34 @@ const MIME_TYPES: Record<string, string> = {
 export class PreviewServer {
   private root: string;
   private port: number;
+  private strictPort: boolean;
   private host: string;
   private base: string;
   private basePrefix: string;
   private proxyRules: ProxyRule[];
+  private middlewares: { pre: Middleware[]; post: Middleware[] };
+  /** `null` when the history API fallback is off */
+  private spa: SpaOptions | null;
+  private cleanUrls: boolean;
+  private trailingSlash: boolean | undefined;
+  private headersOption: PreviewServerOptions['headers'];
+  private redirectsOption: RedirectRule[];
+  /** From `_headers` in root, then the `headers` option; read on start */
+  private headerRules: HeaderRule[] = [];
+  /** From `_redirects` in root, then the `redirects` option; read on start */
+  private redirectRules: RedirectRule[] = [];
   private open: boolean;
   private silent: boolean;
   private label: string;
-  private httpServer: ReturnType<typeof createServer> | null = null;
+  private https: PreviewServerOptions['https'];
+  /** The underlying HTTP(S) server, available once `start()` was called; other libraries can attach to it */
+  httpServer: Server | null = null;
+  private proxySockets = new Set<Duplex>();
 
   constructor(options: PreviewServerOptions = {}) {
     this.root = resolve(options.root ?? join(process.cwd(), 'dist'));
     this.port = options.port ?? 4173;
+    this.strictPort = options.strictPort ?? false;
     this.host = options.host ?? '127.0.0.1';
     this.open = options.open ?? false;
     this.silent = options.silent ?? process.env.CI === 'true';
@@ -64,20 +96,14 @@ export class PreviewServer {
     const rawBase = options.base ?? '';
     this.base = rawBase ? (rawBase.startsWith('/') ? rawBase : '/' + rawBase).replace(/\/?$/, '/') : '';
     this.basePrefix = this.base ? this.base.replace(/\/$/, '') : '';
-    this.proxyRules = this.normalizeProxy(options.proxy);
-  }
-
-  private normalizeProxy(proxy: PreviewServerOptions['proxy']): ProxyRule[] {
-    if (!proxy) return [];
-    const entries = Array.isArray(proxy)
-      ? proxy.map(({ path, target }) => ({ path, target }))
-      : Object.entries(proxy).map(([path, target]) => ({ path, target }));
-    const rules: ProxyRule[] = entries.map(({ path, target }) => ({
-      path: path.startsWith('/') ? path : '/' + path,
-      target: target.replace(/\/$/, ''),
-    }));
-    rules.sort((a, b) => b.path.length - a.path.length);
-    return rules;
+    this.https = options.https;
+    this.proxyRules = normalizeProxy(options.proxy);
+    this.middlewares = normalizeMiddlewares(options.middlewares);
+    this.spa = normalizeSpa(options.spa);
+    this.cleanUrls = options.cleanUrls ?? false;
+    this.trailingSlash = options.trailingSlash;
+    this.headersOption = options.headers;
+    this.redirectsOption = options.redirects ?? [];
   }
 
   private getNetworkUrl(): string | null {
@@ -86,44 +112,72 @@ export class PreviewServer {
     for (const addrs of Object.values(nets ?? {})) {
       for (const addr of addrs ?? []) {
         if (addr.family === 'IPv4' && !addr.internal) {
-          return `http://${addr.address}:${this.port}${this.base}`;
+          return `${this.protocol}://${addr.address}:${this.port}${this.base}`;
         }
       }
     }
-    return `http://0.0.0.0:${this.port}${this.base}`;
+    return `${this.protocol}://0.0.0.0:${this.port}${this.base}`;
   }
 
-  async start(): Promise<{ port: number; url: string }> {
-    this.httpServer = createServer(this.handleRequest.bind(this));
+  private get protocol(): 'http' | 'https' {
+    return this.https ? 'https' : 'http';
+  }
+
+  async start(): Promise<{ port: number; host: string; url: string }> {
+    const read = (name: string) => readFile(join(this.root, name), 'utf-8').catch(() => '');
+    const [headersFile, redirectsFile] = await Promise.all([read('_headers'), read('_redirects')]);
+    this.headerRules = [
+      ...parseHeadersFile(headersFile),
+      ...Object.entries(this.headersOption ?? {}).map(([path, headers]) => ({ path, headers })),
+    ];
+    this.redirectRules = [...parseRedirectsFile(redirectsFile), ...this.redirectsOption];
+
+    const handler = this.handleRequest.bind(this);
+    this.httpServer = this.https
+      ? createHttpsServer(await resolveHttpsOptions(this.https, this.root, this.host), handler)
+      : createServer(handler);
+    this.httpServer.on('upgrade', this.handleUpgrade.bind(this));
 
     const startTime = Date.now();
-    return new Promise((resolve) => {
-      this.httpServer!.listen(this.port, this.host, () => {
-        const readyMs = Date.now() - startTime;
-        const localUrl = `http://localhost:${this.port}${this.base}`;
-        const networkUrl = this.getNetworkUrl();
-        const c = { dim: '\x1b[2m', cyan: '\x1b[36m', green: '\x1b[32m', bold: '\x1b[1m', reset: '\x1b[0m' };
-        const version = pkg.version ?? '0.0.1';
-        if (!this.silent) {
-          let lines =
-            `\n${c.bold}${c.cyan}  ${this.label}${c.reset} v${version} ${c.dim}ready in ${readyMs}ms${c.reset}\n\n` +
-            `${c.green}  ➜${c.reset}  ${c.dim}Local:${c.reset}   ${localUrl}\n`;
-          if (networkUrl) {
-            lines += `${c.green}  ➜${c.reset}  ${c.dim}Network:${c.reset} ${networkUrl}\n`;
-          } else {
-            lines += `${c.green}  ➜${c.reset}  ${c.dim}Network:${c.reset} use --host to expose\n`;
-          }
-          console.log(lines);
-        }
-        if (this.open) {
-          import('open').then(({ default: open }) => open(localUrl)).catch(() => {});
-        }
-        resolve({ port: this.port, url: localUrl });
-      });
-    });
+    const requestedPort = this.port;
+    let address: AddressInfo;
+    try {
+      address = await listen(this.httpServer, this.port, this.host, this.strictPort);
+    } catch (err) {
+      this.httpServer = null;
+      throw err;
+    }
+    const readyMs = Date.now() - startTime;
+    this.port = address.port;
+    const localUrl = `${this.protocol}://${urlHost(address.address)}:${this.port}${this.base}`;
+    const networkUrl = this.getNetworkUrl();
+    const c = { dim: '\x1b[2m', cyan: '\x1b[36m', green: '\x1b[32m', yellow: '\x1b[33m', bold: '\x1b[1m', reset: '\x1b[0m' };
+    const version = pkg.version ?? '0.0.1';
+    if (!this.silent) {
+      if (requestedPort !== 0 && this.port !== requestedPort) {
+        console.log(`${c.dim}[${this.label}]${c.reset} ${c.yellow}Port ${requestedPort} is in use, using ${this.port} instead${c.reset}`);
+      }
+      let lines =
+        `\n${c.bold}${c.cyan}  ${this.label}${c.reset} v${version} ${c.dim}ready in ${readyMs}ms${c.reset}\n\n` +
+        `${c.green}  ➜${c.reset}  ${c.dim}Local:${c.reset}   ${localUrl}\n`;
+      if (networkUrl) {
+        lines += `${c.green}  ➜${c.reset}  ${c.dim}Network:${c.reset} ${networkUrl}\n`;
+      } else {
+        lines += `${c.green}  ➜${c.reset}  ${c.dim}Network:${c.reset} use --host to expose\n`;
+      }
+      console.log(lines);
+    }
+    if (this.open) {
+      import('open').then(({ default: open }) => open(localUrl)).catch(() => {});
+    }
+    return { port: this.port, host: address.address, url: localUrl };
   }
 
   async stop(): Promise<void> {
+    for (const socket of this.proxySockets) {
+      socket.destroy();
+    }
+    this.proxySockets.clear();
     if (this.httpServer) {
       return new Promise((resolve) => {
         this.httpServer!.close(() => {
@@ -134,9 +188,39 @@ export class PreviewServer {
     }
   }
 
+  /**
+   * Add a Connect-style handler. `'pre'` handlers run before the built-in ones, `'post'` handlers
+   * for requests nothing else served (before the 404 page).
+   */
+  use(middleware: Middleware, placement: 'pre' | 'post' = 'pre'): this {
+    this.middlewares[placement].push(middleware);
+    return this;
+  }
+
   private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      await this.serveRequest(req, res);
+    } catch (error) {
+      // A malformed URL (e.g. bad percent-encoding) is the client's fault; anything else is ours
+      const status = error instanceof URIError ? 400 : 500;
+      const message = error instanceof Error ? error.message : String(error);
+      if (!this.silent && status === 500) {
+        const c = { dim: '\x1b[2m', red: '\x1b[31m', reset: '\x1b[0m' };
+        console.error(`${c.dim}[${this.label}]${c.reset} ${c.red}error${c.reset} ${req.url}: ${message}`);
+      }
+      if (!res.headersSent) {
+        res.writeHead(status, { 'Content-Type': 'text/plain' });
+        res.end(status === 400 ? 'Bad Request' : message);
+      } else {
+        res.destroy();
+      }
+    }
+  }
+
+  private async serveRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (await this.applyMiddlewares(this.middlewares.pre, req, res)) return;
     let url = req.url ?? '/';
-    const [pathname, search] = url.split('?');
+    let [pathname, search] = url.split('?');
 
     let pathnameForLookup = pathname;
     if (this.basePrefix) {
@@ -151,34 +235,96 @@ export class PreviewServer {
       }
       pathnameForLookup = pathname.slice(this.basePrefix.length) || '/';
     } else {
-      if (pathname === '/') {
+      // With clean URLs, /index.html itself redirects to /
+      if (pathname === '/' && !this.cleanUrls) {
         return this.redirect(res, '/index.html');
       }
     }
 
+    for (const [name, value] of Object.entries(headersFor(this.headerRules, pathnameForLookup))) {
+      res.setHeader(name, value);
+    }
+    const hasFile = this.findPageFile(pathnameForLookup) !== null || this.publicFile(pathnameForLookup) !== null;
+    const redirect = findRedirect(this.redirectRules, pathnameForLookup, new URLSearchParams(search), hasFile);
+    let rewritten = false;
+    if (redirect) {
+      const { rule, to } = redirect;
+      const status = rule.status ?? 301;
+      const [toPath, toSearch] = to.split('?');
+      // The request's query string carries over unless the rule sets one
+      const query = toSearch ?? search;
+      const target = toPath + (query ? '?' + query : '');
+      if (/^https?:\/\//.test(to)) {
+        if (status === 200) return this.proxyTo(new URL(target), req, res);
+        return this.redirect(res, target, status);
+      }
+      if (status === 200) {
+        pathnameForLookup = toPath;
+        search = query;
+        rewritten = true;
+      } else if (status === 404) {
+        const file = this.findPageFile(toPath);
+        if (!file) return this.serve404(pathnameForLookup, res);
+        const filePath = join(this.root, file.slice(1));
+        return sendFile(req, res, filePath, MIME_TYPES[extname(filePath)] ?? 'application/octet-stream', 404);
+      } else {
+        return this.redirect(res, this.basePrefix + target, status);
+      }
+    }
+
     const proxyHandled = await this.tryProxy(pathnameForLookup, search ?? '', req, res);
     if (proxyHandled) return;
 
-    const publicServed = await this.servePublic(pathnameForLookup, res);
+    const publicServed = this.servePublic(pathnameForLookup, req, res);
     if (publicServed) return;
 
-    const filePath = join(this.root, pathnameForLookup.slice(1) || '');
-    if (!existsSync(filePath)) {
-      return this.serve404(pathnameForLookup, res);
-    }
-    if (!statSync(filePath).isFile()) {
-      const indexPath = join(filePath, 'index.html');
-      if (existsSync(indexPath)) {
-        return this.serveFile(join(pathnameForLookup, 'index.html').replace(/\/+/g, '/'), res);
+    if (!rewritten && (req.method === 'GET' || req.method === 'HEAD')) {
+      const canonical = this.canonicalPath(pathnameForLookup);
+      if (canonical !== null) {
+        return this.redirect(res, this.basePrefix + canonical + (search ? '?' + search : ''), 301);
       }
+    }
+
+    const file = this.findPageFile(pathnameForLookup);
+    if (!file) {
       return this.serve404(pathnameForLookup, res);
     }
+    this.serveFile(file, req, res);
+  }
 
-    await this.serveFile(pathnameForLookup, res);
+  /** `path` as `cleanUrls` and `trailingSlash` want it, or `null` when it already is. */
+  private canonicalPath(path: string): string | null {
+    let canonical = path;
+    if (this.cleanUrls && canonical.endsWith('.html') && this.isFile(canonical)) {
+      canonical = canonical.replace(/(^|\/)index\.html$/, '$1').replace(/\.html$/, '');
+    }
+    const last = canonical.slice(canonical.lastIndexOf('/') + 1);
+    if (canonical !== '/' && !last.includes('.')) {
+      if (this.trailingSlash === true && !canonical.endsWith('/')) canonical += '/';
+      if (this.trailingSlash === false && canonical.endsWith('/')) canonical = canonical.slice(0, -1);
+    }
+    return canonical === path ? null : canonical;
   }
 
-  private redirect(res: ServerResponse, location: string): void {
-    res.writeHead(302, { Location: location });
+  /** The file (path below root) that serves `path`: the file itself, a directory's index.html, or with `cleanUrls` `path.html`. */
+  private findPageFile(path: string): string | null {
+    const candidates = path.endsWith('/') ? [path + 'index.html'] : [path, path + '/index.html'];
+    if (this.cleanUrls && path !== '/' && !path.endsWith('.html')) {
+      candidates.push(path.replace(/\/$/, '') + '.html');
+    }
+    return candidates.find((p) => this.isFile(p)) ?? null;
+  }
+
+  private isFile(path: string): boolean {
+    // Config for the host, not content
+    if (path === '/_headers' || path === '/_redirects') return false;
+    const filePath = resolve(this.root, path.slice(1));
+    if (relative(this.root, filePath).startsWith('..')) return false;
+    return existsSync(filePath) && statSync(filePath).isFile();
+  }
+
+  private redirect(res: ServerResponse, location: string, status = 302): void {
+    res.writeHead(status, { Location: location });
     res.end();
   }
 
@@ -188,77 +334,64 @@ export class PreviewServer {
     req: IncomingMessage,
     res: ServerResponse
   ): Promise<boolean> {
-    const rule = this.proxyRules.find(
-      (r) => pathnameForLookup === r.path || pathnameForLookup.startsWith(r.path + '/')
-    );
+    const rule = findProxyRule(this.proxyRules, pathnameForLookup);
     if (!rule) return false;
 
-    const proxyUrl = rule.target + pathnameForLookup + (search ? '?' + search : '');
-    const headers: Record<string, string> = {};
-    for (const [key, value] of Object.entries(req.headers)) {
-      if (value === undefined) continue;
-      const k = key.toLowerCase();
-      if (k === 'host' || k === 'connection') continue;
-      headers[key] = Array.isArray(value) ? value.join(', ') : value;
+    try {
+      await proxyRequest(rule, pathnameForLookup, search, req, res);
+    } catch (err) {
+      sendProxyError(res, err);
     }
+    return true;
+  }
 
+  /** A `_redirects` rule with status 200 and a URL as target. */
+  private async proxyTo(url: URL, req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const rule: ProxyRule = { path: '/', target: url.origin, ws: false, changeOrigin: true, rewrite: () => url.pathname + url.search };
     try {
-      const opts: RequestInit = {
-        method: req.method ?? 'GET',
-        headers,
-        body:
-          req.method !== 'GET' && req.method !== 'HEAD'
-            ? (req as unknown as ReadableStream)
-            : undefined,
-      };
-      const proxyRes = await fetch(proxyUrl, opts);
-      const resHeaders: Record<string, string | string[]> = {};
-      proxyRes.headers.forEach((v, k) => {
-        const lower = k.toLowerCase();
-        if (lower !== 'transfer-encoding') resHeaders[k] = v;
-      });
-      res.writeHead(proxyRes.status, resHeaders);
-      const buf = await proxyRes.arrayBuffer();
-      res.end(Buffer.from(buf));
-      return true;
-    } catch {
-      res.writeHead(502, { 'Content-Type': 'text/plain' });
-      res.end('Bad Gateway');
-      return true;
+      await proxyRequest(rule, url.pathname, '', req, res);
+    } catch (err) {
+      sendProxyError(res, err);
     }
   }
 
-  private async serveFile(pathnameForLookup: string, res: ServerResponse): Promise<void> {
+  /** Only proxy rules with `ws: true` accept WebSocket upgrades. */
+  private handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): void {
+    const [pathname, search] = (req.url ?? '/').split('?');
+    const pathnameForLookup =
+      this.basePrefix && pathname.startsWith(this.basePrefix) ? pathname.slice(this.basePrefix.length) || '/' : pathname;
+    const rule = findProxyRule(this.proxyRules, pathnameForLookup);
+    if (!rule?.ws) {
+      socket.destroy();
+      return;
+    }
+    this.proxySockets.add(socket);
+    socket.on('close', () => this.proxySockets.delete(socket));
+    proxyUpgrade(rule, pathnameForLookup, search ?? '', req, socket, head);
+  }
+
+  private serveFile(pathnameForLookup: string, req: IncomingMessage, res: ServerResponse): void {
     const filePath = join(this.root, pathnameForLookup.slice(1) || '');
-    const ext = extname(filePath);
-    const contentType = MIME_TYPES[ext] ?? 'application/octet-stream';
-    const data = await readFile(filePath);
-    res.writeHead(200, {
-      'Content-Type': contentType,
-      'Cache-Control': 'public, max-age=0',
-    });
-    res.end(data);
+    sendFile(req, res, filePath, MIME_TYPES[extname(filePath)] ?? 'application/octet-stream');
+  }
+
+  private servePublic(pathname: string, req: IncomingMessage, res: ServerResponse): boolean {
+    const filePath = this.publicFile(pathname);
+    if (!filePath) return false;
+    sendFile(req, res, filePath, MIME_TYPES[extname(filePath)] ?? 'application/octet-stream');
+    return true;
   }
 
-  private async servePublic(pathname: string, res: ServerResponse): Promise<boolean> {
+  private publicFile(pathname: string): string | null {
     const publicDir = join(this.root, 'public');
-    if (!existsSync(publicDir)) return false;
+    if (!existsSync(publicDir)) return null;
 
     const subPath = pathname.slice(1) || '';
     const filePath = resolve(publicDir, subPath);
-    if (relative(publicDir, filePath).startsWith('..')) return false;
-    if (!existsSync(filePath)) return false;
-    if (!statSync(filePath).isFile()) return false;
-
-    const ext = extname(filePath);
-    const contentType = MIME_TYPES[ext] ?? 'application/octet-stream';
-    const data = await readFile(filePath);
-    res.writeHead(200, {
-      'Content-Type': contentType,
-      'Cache-Control': 'public, max-age=0',
-    });
-    res.end(data);
-    return true;
+    if (relative(publicDir, filePath).startsWith('..')) return null;
+    if (!existsSync(filePath)) return null;
+    if (!statSync(filePath).isFile()) return null;
+    return filePath;
   }
 
   private async listVisitablePaths(): Promise<string[]> {
@@ -294,7 +427,39 @@ export class PreviewServer {
     return this.basePrefix ? sorted.map((p) => this.basePrefix + p) : sorted;
   }
 
+  /** Run middleware; errors are logged and answered with 500. Resolves `true` once the request was handled. */
+  private async applyMiddlewares(stack: Middleware[], req: IncomingMessage, res: ServerResponse): Promise<boolean> {
+    try {
+      return await runMiddlewares(stack, req, res);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (!this.silent) {
+        const c = { dim: '\x1b[2m', red: '\x1b[31m', reset: '\x1b[0m' };
+        console.error(`${c.dim}[${this.label}]${c.reset} ${c.red}error${c.reset} [middleware] ${req.url}: ${message}`);
+      }
+      if (!res.headersSent) {
+        res.writeHead(500, { 'Content-Type': 'text/plain' });
+      }
+      res.end(message);
+      return true;
+    }
+  }
+
+  /** Serve the app's index.html for a client-side route. */
+  private async serveSpaFallback(req: IncomingMessage, res: ServerResponse): Promise<boolean> {
+    const pathname = (req.url ?? '/').split('?')[0];
+    if (this.basePrefix && !pathname.startsWith(this.basePrefix + '/')) return false;
+    const path = pathname.slice(this.basePrefix.length);
+    if (!isHistoryFallback(this.spa!, req, path)) return false;
+    const index = findFallbackIndex(this.spa!, path, (p) => this.isFile(p));
+    if (!index) return false;
+    this.serveFile(index, req, res);
+    return true;
+  }
+
   private async serve404(pathname: string, res: ServerResponse): Promise<void> {
+    if (await this.applyMiddlewares(this.middlewares.post, res.req, res)) return;
+    if (this.spa && (await this.serveSpaFallback(res.req, res))) return;
     const paths = await this.listVisitablePaths();
     const listHtml = paths
       .map((p) => `<li><a href="${escapeHtml(p)}">${escapeHtml(p)}</a></li>`)
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeProxy, findProxyRule } from './proxy.js';
+
+describe('normalizeProxy', () => {
+  it('normalizes object and array forms', () => {
+    expect(normalizeProxy({ api: 'http://localhost:8080/', '/ws': { target: 'ws://localhost:8081', ws: true } })).toEqual([
+      { path: '/api', target: 'http://localhost:8080', ws: false },
+      { path: '/ws', target: 'ws://localhost:8081', ws: true },
+    ]);
+    expect(normalizeProxy([{ path: '/api', target: 'http://localhost:8080', changeOrigin: true }])).toEqual([
+      { path: '/api', target: 'http://localhost:8080', ws: false, changeOrigin: true },
+    ]);
+  });
+
+  it('tries regex rules first, then longer prefixes', () => {
+    const rules = normalizeProxy({
+      '/api': 'http://a',
+      '/api/v2': 'http://b',
+      '^/api/.*\\.json$': 'http://c',
+    });
+    expect(rules.map((r) => r.target)).toEqual(['http://c', 'http://b', 'http://a']);
+    expect(findProxyRule(rules, '/api/v2/users')?.target).toBe('http://b');
+    expect(findProxyRule(rules, '/api/v2/users.json')?.target).toBe('http://c');
+    expect(findProxyRule(rules, '/api')?.target).toBe('http://a');
+    expect(findProxyRule(rules, '/apiary')).toBeUndefined();
+  });
+
+  it('matches RegExp paths from the array form', () => {
+    const rules = normalizeProxy([{ path: /^\/(graphql|rpc)\b/g, target: 'http://a' }]);
+    expect(findProxyRule(rules, '/graphql')?.target).toBe('http://a');
+    expect(findProxyRule(rules, '/rpc/call')?.target).toBe('http://a');
+    expect(findProxyRule(rules, '/graphiql')).toBeUndefined();
+  });
+});
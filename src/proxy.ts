@@ -0,0 +1,219 @@
+import { request as httpRequest, type IncomingMessage, type ServerResponse, type OutgoingHttpHeaders } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import type { Duplex } from 'node:stream';
+import type { ProxyConfig, ProxyRule } from './types.js';
+
+/** Headers that describe one connection and must not be forwarded. */
+const HOP_BY_HOP = new Set([
+  'connection',
+  'keep-alive',
+  'proxy-authenticate',
+  'proxy-authorization',
+  'proxy-connection',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+]);
+
+/**
+ * Proxy config (object or array form) → rules. Regex rules come first in config order, then
+ * path prefixes longest first.
+ */
+export function normalizeProxy(proxy: ProxyConfig | undefined): ProxyRule[] {
+  if (!proxy) return [];
+  const entries = Array.isArray(proxy)
+    ? proxy
+    : Object.entries(proxy).map(([path, value]) => ({
+        ...(typeof value === 'string' ? { target: value } : value),
+        path: path.startsWith('^') ? new RegExp(path) : path,
+      }));
+  const rules: ProxyRule[] = entries.map((entry) => ({
+    ...entry,
+    path: typeof entry.path === 'string' && !entry.path.startsWith('/') ? '/' + entry.path : entry.path,
+    target: entry.target.replace(/\/$/, ''),
+    ws: entry.ws ?? false,
+  }));
+  const length = (rule: ProxyRule) => (typeof rule.path === 'string' ? rule.path.length : Number.MAX_SAFE_INTEGER);
+  rules.sort((a, b) => length(b) - length(a));
+  return rules;
+}
+
+export function findProxyRule(rules: ProxyRule[], pathname: string): ProxyRule | undefined {
+  return rules.find((r) =>
+    typeof r.path === 'string' ? pathname === r.path || pathname.startsWith(r.path + '/') : matches(r.path, pathname)
+  );
+}
+
+/**
+ * Forward a request to the rule's target, streaming the request and response bodies (so
+ * Server-Sent Events and large downloads pass through as they arrive). Resolves with the
+ * upstream status once the response has started; rejects when the target is unreachable, does
+ * not answer within `timeout` or a hook throws (see `sendProxyError`).
+ */
+export function proxyRequest(
+  rule: ProxyRule,
+  pathname: string,
+  search: string,
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<number> {
+  const url = upstreamUrl(rule, pathname, search);
+  return new Promise((resolve, reject) => {
+    const proxyReq = (url.protocol === 'https:' ? httpsRequest : httpRequest)(
+      url,
+      { method: req.method, headers: upstreamHeaders(rule, url, req), rejectUnauthorized: rule.secure ?? true },
+      (proxyRes) => {
+        clearTimeout(timer);
+        try {
+          rule.onProxyRes?.(proxyRes, req, res);
+        } catch (err) {
+          // A throwing hook fails this request like an unreachable target, not the server
+          proxyRes.destroy();
+          reject(err);
+          return;
+        }
+        res.writeHead(proxyRes.statusCode ?? 502, proxyRes.statusMessage, responseHeaders(rule, url, proxyRes));
+        res.flushHeaders();
+        proxyRes.pipe(res);
+        proxyRes.on('error', () => res.destroy());
+        resolve(proxyRes.statusCode ?? 502);
+      }
+    );
+    const timer =
+      rule.timeout === undefined
+        ? undefined
+        : setTimeout(() => {
+            const err: NodeJS.ErrnoException = new Error(`No response from ${rule.target} within ${rule.timeout}ms`);
+            err.code = 'ETIMEDOUT';
+            proxyReq.destroy(err);
+          }, rule.timeout);
+    proxyReq.on('error', (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+    // Stop the upstream request when the browser goes away (e.g. an EventSource is closed)
+    res.on('close', () => proxyReq.destroy());
+    rule.onProxyReq?.(proxyReq, req, res);
+    req.pipe(proxyReq);
+  });
+}
+
+/** Answer a failed `proxyRequest`: 504 after a timeout, 502 otherwise. Returns the status. */
+export function sendProxyError(res: ServerResponse, err: unknown): number {
+  const timedOut = (err as NodeJS.ErrnoException | undefined)?.code === 'ETIMEDOUT';
+  const status = timedOut ? 504 : 502;
+  if (!res.headersSent) {
+    res.writeHead(status, { 'Content-Type': 'text/plain' });
+    res.end(timedOut ? 'Gateway Timeout' : 'Bad Gateway');
+  } else {
+    res.destroy();
+  }
+  return status;
+}
+
+/**
+ * Forward a WebSocket upgrade request to the rule's target and pipe the two sockets together.
+ * A non-101 answer from the target is relayed as a plain HTTP response.
+ */
+export function proxyUpgrade(
+  rule: ProxyRule,
+  pathname: string,
+  search: string,
+  req: IncomingMessage,
+  socket: Duplex,
+  head: Buffer
+): void {
+  const url = upstreamUrl(rule, pathname, search);
+  const headers: OutgoingHttpHeaders = { ...upstreamHeaders(rule, url, req), connection: 'Upgrade', upgrade: req.headers.upgrade };
+  const proxyReq = (url.protocol === 'https:' ? httpsRequest : httpRequest)(url, {
+    method: req.method,
+    headers,
+    rejectUnauthorized: rule.secure ?? true,
+  });
+
+  proxyReq.on('upgrade', (proxyRes, proxySocket, proxyHead) => {
+    socket.write(statusLine(proxyRes) + rawHeaderLines(proxyRes.rawHeaders) + '\r\n');
+    if (proxyHead.length > 0) socket.write(proxyHead);
+    if (head.length > 0) proxySocket.write(head);
+    proxySocket.pipe(socket).pipe(proxySocket);
+    proxySocket.on('error', () => socket.destroy());
+    socket.on('error', () => proxySocket.destroy());
+    proxySocket.on('close', () => socket.destroy());
+    socket.on('close', () => proxySocket.destroy());
+  });
+  proxyReq.on('response', (proxyRes) => {
+    socket.write(statusLine(proxyRes) + rawHeaderLines(proxyRes.rawHeaders) + '\r\n');
+    proxyRes.pipe(socket);
+  });
+  proxyReq.on('error', () => socket.destroy());
+  proxyReq.end();
+}
+
+/** Target URL for a request path, after `rewrite`; `ws:`/`wss:` targets are requested as `http:`/`https:`. */
+function upstreamUrl(rule: ProxyRule, pathname: string, search: string): URL {
+  let path = pathname + (search ? '?' + search : '');
+  const { rewrite } = rule;
+  if (typeof rewrite === 'function') {
+    path = rewrite(path);
+  } else if (typeof rewrite === 'string') {
+    path = typeof rule.path === 'string' ? rewrite + path.slice(rule.path.length) : path.replace(rule.path, rewrite);
+  } else if (rewrite) {
+    path = path.replace(rewrite.from, rewrite.to);
+  }
+  if (!path.startsWith('/')) path = '/' + path;
+  return new URL(rule.target.replace(/^ws(s?):/, 'http$1:') + path);
+}
+
+function upstreamHeaders(rule: ProxyRule, url: URL, req: IncomingMessage): OutgoingHttpHeaders {
+  const headers = forwardHeaders(req.headers);
+  headers.host = rule.changeOrigin ? url.host : req.headers.host ?? url.host;
+  return { ...headers, ...rule.headers };
+}
+
+/** Upstream response headers with `Set-Cookie` domains and same-origin `Location`s pointed back at the proxy. */
+function responseHeaders(rule: ProxyRule, url: URL, proxyRes: IncomingMessage): OutgoingHttpHeaders {
+  const headers = forwardHeaders(proxyRes.headers);
+  const cookies = proxyRes.headers['set-cookie'];
+  if (cookies && rule.cookieDomainRewrite !== undefined) {
+    headers['set-cookie'] = cookies.map((cookie) => rewriteCookieDomain(cookie, rule.cookieDomainRewrite!));
+  }
+  const location = proxyRes.headers.location;
+  if (location?.startsWith(url.origin + '/')) {
+    headers.location = location.slice(url.origin.length);
+  }
+  return headers;
+}
+
+function rewriteCookieDomain(cookie: string, rewrite: string | Record<string, string>): string {
+  return cookie.replace(/;\s*domain=([^;]*)/i, (attr, domain: string) => {
+    const to = typeof rewrite === 'string' ? rewrite : rewrite[domain.trim()] ?? rewrite['*'];
+    if (to === undefined) return attr;
+    return to ? `; Domain=${to}` : '';
+  });
+}
+
+/** Copy headers without hop-by-hop ones and `host`; `set-cookie` stays an array. */
+function forwardHeaders(headers: IncomingMessage['headers']): OutgoingHttpHeaders {
+  const out: OutgoingHttpHeaders = {};
+  for (const [key, value] of Object.entries(headers)) {
+    if (value === undefined || key === 'host' || HOP_BY_HOP.has(key)) continue;
+    out[key] = value;
+  }
+  return out;
+}
+
+function matches(pattern: RegExp, path: string): boolean {
+  pattern.lastIndex = 0;
+  return pattern.test(path);
+}
+
+function statusLine(res: IncomingMessage): string {
+  return `HTTP/1.1 ${res.statusCode} ${res.statusMessage}\r\n`;
+}
+
+function rawHeaderLines(raw: string[]): string {
+  let out = '';
+  for (let i = 0; i < raw.length; i += 2) out += `${raw[i]}: ${raw[i + 1]}\r\n`;
+  return out;
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, dirname } from 'node:path';
+import { DEFAULT_CONDITIONS, resolvePackageFile, resolvePackageImports, type PackageJson } from './resolve.js';
+
+describe('resolvePackageFile', () => {
+  const conditions = new Set(DEFAULT_CONDITIONS);
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'mini-dev-resolve-'));
+    const files = [
+      'index.js',
+      'main.cjs',
+      'esm/index.js',
+      'browser/index.js',
+      'browser/feature.js',
+      'node/index.js',
+      'dist/utils/a.js',
+      'dist/utils/private/b.js',
+      'legacy/lib/button.js',
+      'legacy/lib/button.browser.js',
+      'src/internal.js',
+    ];
+    for (const file of files) {
+      await mkdir(dirname(join(dir, file)), { recursive: true });
+      await writeFile(join(dir, file), '');
+    }
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('resolves string and nested condition exports', () => {
+    expect(resolvePackageFile(dir, { exports: './esm/index.js' }, '', conditions)).toBe('esm/index.js');
+    const pkg: PackageJson = {
+      exports: {
+        '.': { node: './node/index.js', browser: { import: './browser/index.js', require: './main.cjs' }, default: './index.js' },
+      },
+    };
+    expect(resolvePackageFile(dir, pkg, '', conditions)).toBe('browser/index.js');
+    expect(resolvePackageFile(dir, pkg, '', new Set(['node']))).toBe('node/index.js');
+    expect(resolvePackageFile(dir, pkg, '', new Set())).toBe('index.js');
+  });
+
+  it('resolves subpath patterns, array fallbacks and excluded subpaths', () => {
+    const pkg: PackageJson = {
+      name: 'lib',
+      exports: {
+        './utils/*': './dist/utils/*.js',
+        './utils/private/*': null,
+        './feature': [{ worker: './worker.js' }, './browser/feature.js'],
+      },
+    };
+    expect(resolvePackageFile(dir, pkg, 'utils/a', conditions)).toBe('dist/utils/a.js');
+    expect(resolvePackageFile(dir, pkg, 'feature', conditions)).toBe('browser/feature.js');
+    expect(() => resolvePackageFile(dir, pkg, 'utils/private/b', conditions)).toThrow(
+      `Package subpath './utils/private/b' is not defined by "exports" in package "lib"`
+    );
+    expect(() => resolvePackageFile(dir, pkg, 'missing', conditions)).toThrow(/not defined by "exports"/);
+  });
+
+  it('uses browser, module and main fields without exports', () => {
+    expect(resolvePackageFile(dir, { main: 'main.cjs', module: 'esm/index.js', browser: 'browser/index.js' }, '', conditions)).toBe(
+      'browser/index.js'
+    );
+    expect(resolvePackageFile(dir, { main: 'main.cjs', module: 'esm/index.js' }, '', conditions)).toBe('esm/index.js');
+    expect(resolvePackageFile(dir, { main: './esm' }, '', conditions)).toBe('esm/index.js');
+    const mapped: PackageJson = { main: 'legacy/lib/button.js', browser: { './legacy/lib/button.js': './legacy/lib/button.browser.js' } };
+    expect(resolvePackageFile(dir, mapped, '', conditions)).toBe('legacy/lib/button.browser.js');
+    expect(resolvePackageFile(dir, {}, 'legacy/lib/button', conditions)).toBe('legacy/lib/button.js');
+  });
+
+  it('returns false for files the browser field maps to false', () => {
+    const pkg: PackageJson = { main: 'main.cjs', browser: { './main.cjs': false, 'legacy/lib/button.js': false } };
+    expect(resolvePackageFile(dir, pkg, '', conditions)).toBe(false);
+    expect(resolvePackageFile(dir, pkg, 'legacy/lib/button.js', conditions)).toBe(false);
+    expect(resolvePackageFile(dir, pkg, '', new Set(['import']))).toBe('main.cjs');
+  });
+});
+
+describe('resolvePackageImports', () => {
+  it('resolves #imports to package files or other packages', () => {
+    const pkg: PackageJson = {
+      imports: {
+        '#internal': { browser: './src/internal.js', default: './src/node.js' },
+        '#dep/*': 'other-pkg/*',
+      },
+    };
+    const conditions = new Set(DEFAULT_CONDITIONS);
+    expect(resolvePackageImports('#internal', '/pkg', pkg, conditions)).toEqual({ file: 'src/internal.js' });
+    expect(resolvePackageImports('#dep/x', '/pkg', pkg, conditions)).toEqual({ bare: 'other-pkg/x' });
+    expect(() => resolvePackageImports('#nope', '/pkg', pkg, conditions)).toThrow(/not defined by "imports"/);
+  });
+});
@@ -0,0 +1,177 @@
+import { existsSync, statSync, readFileSync } from 'node:fs';
+import { join, dirname } from 'node:path';
+
+/** Conditions matched in `exports` / `imports` when none are configured (`default` always matches). */
+export const DEFAULT_CONDITIONS = ['browser', 'import', 'module', 'development'];
+
+/** Extensions probed for package files referenced without one (legacy `main` / subpaths). */
+const PACKAGE_FILE_EXTS = ['.js', '.mjs', '.cjs', '.json'];
+
+/** The package.json fields used for resolution. */
+export interface PackageJson {
+  name?: string;
+  main?: string;
+  module?: string;
+  browser?: string | Record<string, string | false>;
+  exports?: unknown;
+  imports?: Record<string, unknown>;
+}
+
+export function readPackageJson(packageDir: string): PackageJson {
+  return JSON.parse(readFileSync(join(packageDir, 'package.json'), 'utf-8')) as PackageJson;
+}
+
+/** Nearest directory containing a package.json, starting at `dir`. */
+export function findPackageScope(dir: string): string | null {
+  for (let d: string | null = dir; d; d = dirname(d) === d ? null : dirname(d)) {
+    if (existsSync(join(d, 'package.json'))) return d;
+  }
+  return null;
+}
+
+/**
+ * Resolve `subpath` (`''` for the package itself, otherwise e.g. `'client'` or `'dist/x.js'`)
+ * inside a package to a file path relative to the package directory.
+ * Uses `exports` when present (Node's algorithm: condition objects, arrays, `*` patterns);
+ * otherwise the `browser` / `module` / `main` fields and extension probing.
+ * Returns `false` when the `browser` field maps the file to `false` (an empty module in browsers).
+ * Throws an error explaining why when the subpath is not exported or the file is missing.
+ */
+export function resolvePackageFile(
+  packageDir: string,
+  pkg: PackageJson,
+  subpath: string,
+  conditions: Set<string>
+): string | false {
+  const name = pkg.name ?? packageDir;
+  if (pkg.exports !== undefined && pkg.exports !== null) {
+    const key = subpath ? './' + subpath : '.';
+    const target = resolveExports(pkg.exports, key, conditions);
+    if (typeof target !== 'string') {
+      throw new Error(
+        key === '.'
+          ? `No "exports" main entry defined in package "${name}" for conditions ${formatConditions(conditions)}`
+          : `Package subpath '${key}' is not defined by "exports" in package "${name}"`
+      );
+    }
+    const file = target.replace(/^\.\//, '');
+    if (!isFile(join(packageDir, file))) {
+      throw new Error(`"exports" of package "${name}" points to missing file '${target}'`);
+    }
+    return file;
+  }
+
+  let entry = subpath;
+  if (!entry) {
+    const browserMain = conditions.has('browser') && typeof pkg.browser === 'string' ? pkg.browser : undefined;
+    const moduleMain = conditions.has('module') ? pkg.module : undefined;
+    entry = browserMain ?? moduleMain ?? pkg.main ?? 'index.js';
+  }
+  entry = entry.replace(/^\.\//, '');
+  if (conditions.has('browser') && pkg.browser && typeof pkg.browser === 'object') {
+    const mapped = pkg.browser['./' + entry] ?? pkg.browser[entry];
+    if (mapped === false) return false;
+    if (typeof mapped === 'string') entry = mapped.replace(/^\.\//, '');
+  }
+  const file = probeFile(packageDir, entry);
+  if (!file) {
+    throw new Error(
+      subpath
+        ? `Cannot find '${subpath}' in package "${name}"`
+        : `Entry '${entry}' of package "${name}" does not exist`
+    );
+  }
+  return file;
+}
+
+/**
+ * Resolve a `#specifier` through the `imports` field of the package at `packageDir`.
+ * Returns a file path relative to the package (`'./...'` targets) or a bare specifier to
+ * resolve as a package; throws when the specifier is not defined.
+ */
+export function resolvePackageImports(
+  specifier: string,
+  packageDir: string,
+  pkg: PackageJson,
+  conditions: Set<string>
+): { file: string } | { bare: string } {
+  const target = pkg.imports ? resolveSubpathMap(pkg.imports, specifier, conditions) : undefined;
+  if (typeof target !== 'string') {
+    throw new Error(`Import '${specifier}' is not defined by "imports" in ${join(packageDir, 'package.json')}`);
+  }
+  if (target.startsWith('./')) return { file: target.slice(2) };
+  return { bare: target };
+}
+
+/** `exports` value → target for a subpath key (`.` or `./x`); `null` when excluded, `undefined` when unmatched. */
+function resolveExports(exports: unknown, key: string, conditions: Set<string>): string | null | undefined {
+  const isSubpathMap =
+    typeof exports === 'object' && !Array.isArray(exports) && Object.keys(exports as object).some((k) => k.startsWith('.'));
+  if (!isSubpathMap) {
+    return key === '.' ? resolveTarget(exports, undefined, conditions) : undefined;
+  }
+  return resolveSubpathMap(exports as Record<string, unknown>, key, conditions);
+}
+
+/** Exact keys first, then `*` patterns (longest prefix wins), then legacy `./dir/` folder keys. */
+function resolveSubpathMap(
+  map: Record<string, unknown>,
+  key: string,
+  conditions: Set<string>
+): string | null | undefined {
+  if (key in map && !key.includes('*')) return resolveTarget(map[key], undefined, conditions);
+
+  const patterns = Object.keys(map)
+    .filter((k) => k.split('*').length === 2)
+    .sort((a, b) => b.indexOf('*') - a.indexOf('*') || b.length - a.length);
+  for (const pattern of patterns) {
+    const [prefix, suffix] = pattern.split('*');
+    if (key.startsWith(prefix) && key !== prefix && key.endsWith(suffix) && key.length >= pattern.length) {
+      return resolveTarget(map[pattern], key.slice(prefix.length, key.length - suffix.length), conditions);
+    }
+  }
+
+  const folder = Object.keys(map)
+    .filter((k) => k.endsWith('/') && key.startsWith(k))
+    .sort((a, b) => b.length - a.length)[0];
+  if (folder) {
+    const target = resolveTarget(map[folder], undefined, conditions);
+    return typeof target === 'string' ? target + key.slice(folder.length) : target;
+  }
+  return undefined;
+}
+
+function resolveTarget(target: unknown, patternMatch: string | undefined, conditions: Set<string>): string | null | undefined {
+  if (typeof target === 'string') {
+    return patternMatch === undefined ? target : target.replace(/\*/g, patternMatch);
+  }
+  if (Array.isArray(target)) {
+    for (const item of target) {
+      const resolved = resolveTarget(item, patternMatch, conditions);
+      if (typeof resolved === 'string') return resolved;
+    }
+    return null;
+  }
+  if (target && typeof target === 'object') {
+    for (const [condition, value] of Object.entries(target)) {
+      if (condition !== 'default' && !conditions.has(condition)) continue;
+      const resolved = resolveTarget(value, patternMatch, conditions);
+      if (resolved !== undefined) return resolved;
+    }
+    return undefined;
+  }
+  return null;
+}
+
+function probeFile(packageDir: string, entry: string): string | null {
+  const candidates = [entry, ...PACKAGE_FILE_EXTS.map((ext) => entry + ext), ...PACKAGE_FILE_EXTS.map((ext) => join(entry, 'index' + ext))];
+  return candidates.find((c) => isFile(join(packageDir, c)))?.replace(/\\/g, '/') ?? null;
+}
+
+function isFile(path: string): boolean {
+  return existsSync(path) && statSync(path).isFile();
+}
+
+function formatConditions(conditions: Set<string>): string {
+  return [...conditions, 'default'].map((c) => `"${c}"`).join(', ');
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { transform } from 'esbuild';
+import { applyEdits } from './source-map.js';
+
+/** Original line (1-based) of the first mapping on each generated line. */
+function originalLines(code: string): Array<number | undefined> {
+  const b64 = /sourceMappingURL=data:application\/json;base64,(\S+)/.exec(code)![1];
+  const { mappings } = JSON.parse(Buffer.from(b64, 'base64').toString()) as { mappings: string };
+  const B64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+  let line = 0;
+  return mappings.split(';').map((segments) => {
+    let first: number | undefined;
+    for (const segment of segments.split(',').filter(Boolean)) {
+      const values: number[] = [];
+      let value = 0;
+      let shift = 0;
+      for (const char of segment) {
+        const digit = B64.indexOf(char);
+        value += (digit & 31) << shift;
+        if (digit & 32) shift += 5;
+        else {
+          values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+          value = 0;
+          shift = 0;
+        }
+      }
+      line += values[2] ?? 0;
+      first ??= line + 1;
+    }
+    return first;
+  });
+}
+
+describe('applyEdits', () => {
+  it('applies edits to code without a source map', () => {
+    expect(applyEdits('abcdef', [{ start: 4, end: 5, text: 'E' }, { start: 0, end: 0, text: '>' }])).toBe('>abcdEf');
+  });
+
+  it('keeps an inline source map pointing at the original lines', async () => {
+    const source = "import { a } from './a';\n\nconst x: number = a;\nconsole.log(x);\n";
+    const { code } = await transform(source, { loader: 'ts', sourcemap: 'inline', sourcefile: 'x.ts', format: 'esm' });
+    expect(originalLines(code).slice(0, 3)).toEqual([1, 3, 4]);
+
+    const start = code.indexOf('"./a"');
+    const edited = applyEdits(code, [
+      { start: 0, end: 0, text: '// injected\n// header\n' },
+      { start, end: start + 5, text: "'/src/a.ts?t=123'" },
+    ]);
+    expect(edited).toContain("import { a } from '/src/a.ts?t=123';");
+    expect(originalLines(edited).slice(0, 5)).toEqual([undefined, undefined, 1, 3, 4]);
+  });
+});
@@ -0,0 +1,139 @@
+/** Replacement of `code.slice(start, end)` with `text`. */
+export interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const INLINE_MAP_RE = /\n?\/\/# sourceMappingURL=data:application\/json;(?:charset=utf-8;)?base64,([A-Za-z0-9+/=]+)\s*$/;
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Apply non-overlapping edits to generated code. When the code ends with an inline source
+ * map (as emitted by esbuild), its mappings are shifted so they still point at the original
+ * source after the edits.
+ */
+export function applyEdits(code: string, edits: Edit[]): string {
+  const sorted = [...edits].sort((a, b) => a.start - b.start);
+  const match = INLINE_MAP_RE.exec(code);
+  const body = match ? code.slice(0, match.index) : code;
+
+  let out = '';
+  let pos = 0;
+  for (const edit of sorted) {
+    out += body.slice(pos, edit.start) + edit.text;
+    pos = edit.end;
+  }
+  out += body.slice(pos);
+  if (!match) return out;
+
+  const map = JSON.parse(Buffer.from(match[1], 'base64').toString('utf-8')) as { mappings: string };
+  map.mappings = remapMappings(map.mappings, body, out, sorted);
+  return out + '\n//# sourceMappingURL=data:application/json;base64,' + Buffer.from(JSON.stringify(map)).toString('base64') + '\n';
+}
+
+/** Move each mapping segment from its offset in `before` to the corresponding offset in `after`. */
+function remapMappings(mappings: string, before: string, after: string, edits: Edit[]): string {
+  const beforeLines = lineStarts(before);
+  const afterLines = lineStarts(after);
+  const lines: number[][][] = [];
+
+  // Source index, line, column and name index are relative to the previous segment in the whole map
+  const state = [0, 0, 0, 0];
+  mappings.split(';').forEach((line, lineIndex) => {
+    let column = 0;
+    for (const encoded of line.split(',')) {
+      if (!encoded) continue;
+      const fields = decodeVlq(encoded);
+      column += fields[0];
+      const segment = [0];
+      for (let f = 1; f < fields.length; f++) {
+        state[f - 1] += fields[f];
+        segment.push(state[f - 1]);
+      }
+      const offset = shiftOffset((beforeLines[lineIndex] ?? before.length) + column, edits);
+      const newLine = findLine(afterLines, offset);
+      segment[0] = offset - afterLines[newLine];
+      (lines[newLine] ??= []).push(segment);
+    }
+  });
+
+  const prev = [0, 0, 0, 0];
+  const encodedLines: string[] = [];
+  for (let l = 0; l < afterLines.length; l++) {
+    let column = 0;
+    const segments = (lines[l] ?? []).sort((a, b) => a[0] - b[0]);
+    encodedLines.push(
+      segments
+        .map((segment) => {
+          const fields = [segment[0] - column];
+          column = segment[0];
+          for (let f = 1; f < segment.length; f++) {
+            fields.push(segment[f] - prev[f - 1]);
+            prev[f - 1] = segment[f];
+          }
+          return fields.map(encodeVlq).join('');
+        })
+        .join(',')
+    );
+  }
+  return encodedLines.join(';').replace(/;+$/, '');
+}
+
+/** Offset in the edited code of `offset` in the original; offsets inside a replaced range move to its start. */
+function shiftOffset(offset: number, edits: Edit[]): number {
+  let delta = 0;
+  for (const edit of edits) {
+    if (edit.start > offset || (edit.start === offset && edit.end > offset)) break;
+    if (edit.end > offset) return edit.start + delta;
+    delta += edit.text.length - (edit.end - edit.start);
+  }
+  return offset + delta;
+}
+
+function lineStarts(code: string): number[] {
+  const starts = [0];
+  for (let i = code.indexOf('\n'); i !== -1; i = code.indexOf('\n', i + 1)) starts.push(i + 1);
+  return starts;
+}
+
+function findLine(starts: number[], offset: number): number {
+  let lo = 0;
+  let hi = starts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (starts[mid] <= offset) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+function decodeVlq(encoded: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+  for (const char of encoded) {
+    const digit = BASE64.indexOf(char);
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+  return values;
+}
+
+function encodeVlq(value: number): string {
+  let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+  let out = '';
+  do {
+    let digit = vlq & 31;
+    vlq >>>= 5;
+    if (vlq > 0) digit |= 32;
+    out += BASE64[digit];
+  } while (vlq > 0);
+  return out;
+}
@@ -0,0 +1,44 @@
+import type { IncomingMessage } from 'node:http';
+import type { SpaOptions } from './types.js';
+
+/** `spa` option → options, or `null` when the fallback is off. */
+export function normalizeSpa(spa: boolean | SpaOptions | undefined): SpaOptions | null {
+  if (!spa) return null;
+  return spa === true ? {} : spa;
+}
+
+/**
+ * Whether a request for `pathname` (below base) that matched no file should get the app's
+ * index.html: `exclude` patterns never do, `include` patterns always do (for GET and HEAD),
+ * and otherwise browser navigations do, i.e. requests accepting `text/html` for a path whose
+ * last segment has no extension, so missing assets still 404.
+ */
+export function isHistoryFallback(spa: SpaOptions, req: IncomingMessage, pathname: string): boolean {
+  if (req.method !== 'GET' && req.method !== 'HEAD') return false;
+  if (spa.exclude?.some((p) => matchesPattern(p, pathname))) return false;
+  if (spa.include?.some((p) => matchesPattern(p, pathname))) return true;
+  const last = pathname.slice(pathname.lastIndexOf('/') + 1);
+  return !last.includes('.') && (req.headers.accept ?? '').includes('text/html');
+}
+
+/**
+ * The index.html to serve for `pathname`: the `index` option, else the nearest `index.html`
+ * in the path's directory or above (so `/admin/users/5` gets `/admin/index.html` when the
+ * admin app has its own), as a path below base; `null` when there is none.
+ */
+export function findFallbackIndex(spa: SpaOptions, pathname: string, exists: (path: string) => boolean): string | null {
+  if (spa.index) {
+    const index = spa.index.startsWith('/') ? spa.index : '/' + spa.index;
+    return exists(index) ? index : null;
+  }
+  for (let dir = pathname.slice(0, pathname.lastIndexOf('/') + 1); ; dir = dir.slice(0, dir.lastIndexOf('/', dir.length - 2) + 1)) {
+    if (exists(dir + 'index.html')) return dir + 'index.html';
+    if (dir === '/') return null;
+  }
+}
+
+function matchesPattern(pattern: string | RegExp, pathname: string): boolean {
+  if (typeof pattern === 'string') return pathname === pattern || pathname.startsWith(pattern.replace(/\/?$/, '/'));
+  pattern.lastIndex = 0;
+  return pattern.test(pathname);
+}
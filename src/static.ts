@@ -0,0 +1,168 @@
+import { createReadStream, existsSync, statSync, type Stats } from 'node:fs';
+import { basename } from 'node:path';
+import { pipeline } from 'node:stream';
+import { constants as zlib, createBrotliCompress, createGzip } from 'node:zlib';
+import type { IncomingMessage, OutgoingHttpHeaders, ServerResponse } from 'node:http';
+
+/**
+ * Content-hashed file names as `build` writes them (`[name]-[hash]`, esbuild's 8 base32
+ * characters) or other bundlers do (hex with at least one digit).
+ */
+const HASHED_NAME_RE = /[-.](?:[A-Z2-7]{8}|(?=[a-f]*\d)[a-f0-9]{8,})\.\w+$/;
+
+/** Types worth compressing on the fly; images, fonts and media already are compressed. */
+const COMPRESSIBLE_RE = /^(text\/|application\/(javascript|json|xml|manifest\+json|wasm)|image\/svg\+xml)/;
+
+/** Smaller responses are sent as they are; compressing them saves nothing. */
+const MIN_COMPRESS_SIZE = 1024;
+
+/** Precompressed siblings, in order of preference. */
+const ENCODINGS = [
+  { name: 'br', ext: '.br' },
+  { name: 'gzip', ext: '.gz' },
+] as const;
+
+/**
+ * Send a file the way a CDN would: streamed, with `ETag` / `Last-Modified` and 304 answers,
+ * single byte ranges (206 / 416), a precompressed `.br` / `.gz` sibling or on-the-fly
+ * compression when the client accepts it, and a year of `immutable` caching for
+ * content-hashed names. `Content-Type` and `Cache-Control` already set on `res` (by `_headers`
+ * or middleware) are kept. A `status` other than 200 (e.g. a custom 404 page) is sent whole.
+ */
+export function sendFile(
+  req: IncomingMessage,
+  res: ServerResponse,
+  filePath: string,
+  contentType: string,
+  status = 200
+): void {
+  const stats = statSync(filePath);
+  const accepted = acceptedEncodings(req.headers['accept-encoding']);
+  const compressible = COMPRESSIBLE_RE.test(contentType);
+
+  // A precompressed sibling is its own representation, with its own size and validators
+  let encoding: string | null = null;
+  let sourcePath = filePath;
+  let source = stats;
+  for (const { name, ext } of ENCODINGS) {
+    if (!accepted.has(name) || !existsSync(filePath + ext)) continue;
+    const sibling = statSync(filePath + ext);
+    if (!sibling.isFile()) continue;
+    encoding = name;
+    sourcePath = filePath + ext;
+    source = sibling;
+    break;
+  }
+  const compressOnTheFly =
+    encoding === null && compressible && stats.size >= MIN_COMPRESS_SIZE && !req.headers.range
+      ? ENCODINGS.find(({ name }) => accepted.has(name))?.name ?? null
+      : null;
+
+  const etag = entityTag(source, encoding ?? compressOnTheFly);
+  const headers: OutgoingHttpHeaders = {
+    'Content-Type': contentType,
+    'Cache-Control': HASHED_NAME_RE.test(basename(filePath))
+      ? 'public, max-age=31536000, immutable'
+      : 'public, max-age=0, must-revalidate',
+    ETag: etag,
+    'Last-Modified': source.mtime.toUTCString(),
+  };
+  if (compressible) headers.Vary = 'Accept-Encoding';
+  for (const name of ['Content-Type', 'Cache-Control']) {
+    if (res.hasHeader(name)) delete headers[name];
+  }
+
+  if (status === 200 && isNotModified(req, etag, source.mtime)) {
+    res.writeHead(304, headers);
+    res.end();
+    return;
+  }
+
+  const encodingName = encoding ?? compressOnTheFly;
+  if (encodingName) headers['Content-Encoding'] = encodingName;
+  if (compressOnTheFly) {
+    res.writeHead(status, headers);
+    if (req.method === 'HEAD') return void res.end();
+    const compressor =
+      compressOnTheFly === 'br'
+        ? createBrotliCompress({ params: { [zlib.BROTLI_PARAM_QUALITY]: 4, [zlib.BROTLI_PARAM_SIZE_HINT]: stats.size } })
+        : createGzip();
+    pipeline(createReadStream(filePath), compressor, res, () => {});
+    return;
+  }
+
+  headers['Accept-Ranges'] = 'bytes';
+  const range = status === 200 ? rangeFor(req, etag, source) : null;
+  if (range === 'unsatisfiable') {
+    res.writeHead(416, { ...headers, 'Content-Range': `bytes */${source.size}` });
+    res.end();
+    return;
+  }
+  const [start, end] = range ?? [0, source.size - 1];
+  headers['Content-Length'] = source.size === 0 ? 0 : end - start + 1;
+  if (range) headers['Content-Range'] = `bytes ${start}-${end}/${source.size}`;
+  res.writeHead(range ? 206 : status, headers);
+  if (req.method === 'HEAD' || source.size === 0) return void res.end();
+  // Errors (e.g. the client went away) end both streams; nothing more to answer
+  pipeline(createReadStream(sourcePath, { start, end }), res, () => {});
+}
+
+/** Encodings with a non-zero q-value in `Accept-Encoding`. */
+function acceptedEncodings(header: string | undefined): Set<string> {
+  const accepted = new Set<string>();
+  for (const part of (header ?? '').split(',')) {
+    const [name, ...params] = part.trim().toLowerCase().split(';');
+    const q = params.map((p) => p.trim()).find((p) => p.startsWith('q='));
+    if (name && (!q || Number(q.slice(2)) > 0)) accepted.add(name);
+  }
+  return accepted;
+}
+
+/** Validator from size and modification time (as nginx does), per content encoding. */
+function entityTag(stats: Stats, encoding: string | null): string {
+  const tag = `${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}`;
+  return `"${tag}${encoding ? '-' + encoding : ''}"`;
+}
+
+function isNotModified(req: IncomingMessage, etag: string, mtime: Date): boolean {
+  if (req.method !== 'GET' && req.method !== 'HEAD') return false;
+  const ifNoneMatch = req.headers['if-none-match'];
+  if (ifNoneMatch) {
+    const opaque = (tag: string) => tag.trim().replace(/^W\//, '');
+    return ifNoneMatch.trim() === '*' || ifNoneMatch.split(',').some((tag) => opaque(tag) === opaque(etag));
+  }
+  const ifModifiedSince = req.headers['if-modified-since'];
+  if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince);
+    return !Number.isNaN(since) && Math.floor(mtime.getTime() / 1000) * 1000 <= since;
+  }
+  return false;
+}
+
+/**
+ * The byte range (inclusive) a `Range: bytes=…` header asks for; `null` for the whole file
+ * (no header, several ranges, another unit, or an `If-Range` that no longer matches).
+ */
+function rangeFor(req: IncomingMessage, etag: string, stats: Stats): [number, number] | 'unsatisfiable' | null {
+  const header = req.headers.range;
+  if (!header || (req.method !== 'GET' && req.method !== 'HEAD')) return null;
+  const ifRange = req.headers['if-range'];
+  if (ifRange && ifRange !== etag && ifRange !== stats.mtime.toUTCString()) {
+    return null;
+  }
+  const m = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!m || (!m[1] && !m[2])) return null;
+  const size = stats.size;
+  let start: number;
+  let end: number;
+  if (!m[1]) {
+    // Suffix range: the last n bytes
+    start = Math.max(0, size - Number(m[2]));
+    end = size - 1;
+  } else {
+    start = Number(m[1]);
+    end = m[2] ? Math.min(Number(m[2]), size - 1) : size - 1;
+  }
+  if (start >= size || start > end) return 'unsatisfiable';
+  return [start, end];
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, rm, stat, utimes } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { TransformCache } from './transform-cache.js';
+
+describe('TransformCache', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'mini-dev-transform-cache-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('counts hits and misses', async () => {
+    const cache = new TransformCache(null, 'salt');
+    expect(await cache.get('/a.ts', 'a', '')).toBeUndefined();
+    await cache.set('/a.ts', 'a', '', 'A');
+    expect(await cache.get('/a.ts', 'a', '')).toBe('A');
+    expect(await cache.get('/a.ts', 'changed', '')).toBeUndefined();
+    expect(cache.stats()).toEqual({ hits: 1, misses: 2 });
+  });
+
+  it('misses entries persisted with another salt', async () => {
+    await new TransformCache(dir, 'plugin@1').set('/a.ts', 'a', '', 'A1');
+    expect(await new TransformCache(dir, 'plugin@1').get('/a.ts', 'a', '')).toBe('A1');
+    expect(await new TransformCache(dir, 'plugin@2').get('/a.ts', 'a', '')).toBeUndefined();
+  });
+
+  it('removes the entries used longest ago beyond the size limit', async () => {
+    const first = new TransformCache(dir, 'salt');
+    const age = async (ms: number) => {
+      const when = new Date(Date.now() - ms);
+      for (const file of await readdir(dir)) {
+        if ((await stat(join(dir, file))).mtimeMs > Date.now() - 30_000) await utimes(join(dir, file), when, when);
+      }
+    };
+    await first.set('/old.ts', '/old.ts', '', 'x'.repeat(100));
+    await age(120_000);
+    await first.set('/used.ts', '/used.ts', '', 'x'.repeat(100));
+    await first.set('/new.ts', '/new.ts', '', 'x'.repeat(100));
+    await age(60_000);
+    // Reading marks an entry as used
+    expect(await new TransformCache(dir, 'salt').get('/used.ts', '/used.ts', '')).toBeDefined();
+
+    const next = new TransformCache(dir, 'salt', 250);
+    await next.set('/fresh.ts', '/fresh.ts', '', 'y'.repeat(100));
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    const survivors = new TransformCache(dir, 'salt');
+    expect(await survivors.get('/old.ts', '/old.ts', '')).toBeUndefined();
+    for (const id of ['/used.ts', '/new.ts', '/fresh.ts']) {
+      expect(await survivors.get(id, id, '')).toBeDefined();
+    }
+  });
+});
@@ -0,0 +1,98 @@
+import { readFile, writeFile, mkdir, readdir, stat, rm, utimes } from 'node:fs/promises';
+import { createHash } from 'node:crypto';
+import { join } from 'node:path';
+
+/** Persisted entries beyond this total size are removed, least recently used first. */
+const MAX_DISK_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Results of plugin `transform` hooks (including the esbuild TS/JSX transform), keyed by
+ * module id, the loaded source and the config that affects the output. One entry is kept in
+ * memory per module id; when a directory is given, entries are also written there so a
+ * restarted server skips transforming unchanged files.
+ */
+export class TransformCache {
+  private hits = 0;
+  private misses = 0;
+  private memory = new Map<string, { key: string; code: string }>();
+  private dirReady: Promise<unknown> | null = null;
+
+  constructor(
+    /** Directory to persist entries in, or `null` to keep them in memory only */
+    private dir: string | null,
+    /** Config shared by every entry (version, esbuild options, plugins) */
+    private salt: string,
+    private maxDiskBytes = MAX_DISK_BYTES
+  ) {}
+
+  /** Cached transform of `source` for `id`; `extra` is per-module config such as tsconfig options. */
+  async get(id: string, source: string, extra: string): Promise<string | undefined> {
+    const key = this.key(id, source, extra);
+    const entry = this.memory.get(id);
+    if (entry?.key === key) {
+      this.hits++;
+      return entry.code;
+    }
+    if (this.dir) {
+      const file = join(this.dir, key + '.js');
+      try {
+        const code = await readFile(file, 'utf-8');
+        this.memory.set(id, { key, code });
+        this.hits++;
+        // Pruning removes the entries used longest ago
+        const now = new Date();
+        utimes(file, now, now).catch(() => {});
+        return code;
+      } catch {
+        /* not persisted */
+      }
+    }
+    this.misses++;
+    return undefined;
+  }
+
+  async set(id: string, source: string, extra: string, code: string): Promise<void> {
+    const key = this.key(id, source, extra);
+    this.memory.set(id, { key, code });
+    if (!this.dir) return;
+    const dir = this.dir;
+    if (!this.dirReady) {
+      this.dirReady = mkdir(dir, { recursive: true });
+      // Once per server: entries for old sources and configs pile up otherwise
+      this.dirReady.then(() => this.prune()).catch(() => {});
+    }
+    try {
+      await this.dirReady;
+      await writeFile(join(dir, key + '.js'), code);
+    } catch {
+      // A read-only node_modules only costs the next cold start
+    }
+  }
+
+  /** Requests answered from the cache, and transforms it did not have. */
+  stats(): { hits: number; misses: number } {
+    return { hits: this.hits, misses: this.misses };
+  }
+
+  /** Remove the least recently used persisted entries while they take more than `maxDiskBytes`. */
+  private async prune(): Promise<void> {
+    const dir = this.dir!;
+    const entries = await Promise.all(
+      (await readdir(dir)).map(async (name) => {
+        const stats = await stat(join(dir, name)).catch(() => null);
+        return { name, size: stats?.size ?? 0, used: stats?.mtimeMs ?? 0 };
+      })
+    );
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    entries.sort((a, b) => a.used - b.used);
+    for (const entry of entries) {
+      if (total <= this.maxDiskBytes) break;
+      await rm(join(dir, entry.name), { force: true });
+      total -= entry.size;
+    }
+  }
+
+  private key(id: string, source: string, extra: string): string {
+    return createHash('sha256').update(`${this.salt}\0${id}\0${extra}\0${source}`).digest('hex').slice(0, 24);
+  }
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { clearTsconfigCache, findTsconfig, loadTsconfig, matchTsconfigPaths, parseJsonc } from './tsconfig.js';
+
+describe('loadTsconfig', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'mini-dev-tsconfig-'));
+    await mkdir(join(dir, 'node_modules/@scope/config'), { recursive: true });
+    await mkdir(join(dir, 'app/src'), { recursive: true });
+    await writeFile(
+      join(dir, 'node_modules/@scope/config/package.json'),
+      '{"name":"@scope/config","version":"1.0.0"}'
+    );
+    await writeFile(join(dir, 'node_modules/@scope/config/tsconfig.json'), '{"compilerOptions":{"strict":true,"jsx":"preserve"}}');
+    await writeFile(join(dir, 'base.json'), '{"compilerOptions":{"paths":{"@shared/*":["shared/*"]},"jsx":"react-jsx"}}');
+    await writeFile(
+      join(dir, 'app/tsconfig.json'),
+      '{\n  // app config\n  "extends": ["@scope/config/tsconfig.json", "../base"],\n  "compilerOptions": { "baseUrl": "./src", },\n}'
+    );
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('finds the nearest tsconfig.json', () => {
+    expect(findTsconfig(join(dir, 'app/src'))).toBe(join(dir, 'app/tsconfig.json'));
+    expect(findTsconfig(join(dir, 'app/src'), join(dir, 'app/src'))).toBeNull();
+  });
+
+  it('caches lookups until the cache is cleared', async () => {
+    expect(findTsconfig(join(dir, 'app/src'))).toBe(join(dir, 'app/tsconfig.json'));
+    await writeFile(join(dir, 'app/src/tsconfig.json'), '{}');
+    expect(findTsconfig(join(dir, 'app/src'))).toBe(join(dir, 'app/tsconfig.json'));
+    clearTsconfigCache();
+    expect(findTsconfig(join(dir, 'app/src'))).toBe(join(dir, 'app/src/tsconfig.json'));
+    await rm(join(dir, 'app/src/tsconfig.json'));
+    clearTsconfigCache();
+  });
+
+  it('merges extends chains with the extending config winning', () => {
+    const { compilerOptions } = loadTsconfig(join(dir, 'app/tsconfig.json'));
+    expect(compilerOptions.strict).toBe(true);
+    expect(compilerOptions.jsx).toBe('react-jsx');
+    expect(compilerOptions.baseUrl).toBe(join(dir, 'app/src'));
+    // paths are relative to baseUrl once it is set
+    expect(matchTsconfigPaths('@shared/x', compilerOptions)).toEqual([join(dir, 'app/src/shared/x')]);
+  });
+});
+
+describe('matchTsconfigPaths', () => {
+  it('prefers exact keys and the longest wildcard prefix', () => {
+    const options = {
+      pathsBasePath: '/p',
+      paths: { '*': ['types/*'], '@/*': ['src/*'], '@/ui/*': ['ui/*', 'fallback/*'], config: ['config/index.ts'] },
+    };
+    expect(matchTsconfigPaths('@/ui/button', options)).toEqual(['/p/ui/button', '/p/fallback/button']);
+    expect(matchTsconfigPaths('@/app', options)).toEqual(['/p/src/app']);
+    expect(matchTsconfigPaths('config', options)).toEqual(['/p/config/index.ts']);
+    expect(matchTsconfigPaths('react', options)).toEqual(['/p/types/react']);
+    expect(matchTsconfigPaths('react', {})).toEqual([]);
+  });
+});
+
+describe('parseJsonc', () => {
+  it('accepts comments and trailing commas but keeps them inside strings', () => {
+    expect(parseJsonc('{ /* a */ "url": "http://x//y", // b\n "list": [1, 2,], }')).toEqual({
+      url: 'http://x//y',
+      list: [1, 2],
+    });
+  });
+
+  it('keeps commas before brackets inside strings', () => {
+    expect(parseJsonc('{ "a": "x,}", "b": [",]", "y, ]",], /* , */ }')).toEqual({ a: 'x,}', b: [',]', 'y, ]'] });
+    expect(parseJsonc('{ "a": [1, // one\n],\n}')).toEqual({ a: [1] });
+  });
+});
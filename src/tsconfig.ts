@@ -0,0 +1,157 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { join, dirname, resolve, isAbsolute } from 'node:path';
+import { createRequire } from 'node:module';
+
+/** compilerOptions of a tsconfig after following `extends`, with paths made absolute. */
+export interface TsconfigCompilerOptions {
+  /** Absolute directory */
+  baseUrl?: string;
+  paths?: Record<string, string[]>;
+  /** Absolute directory `paths` targets are relative to (`baseUrl`, else the declaring config's directory) */
+  pathsBasePath?: string;
+  [option: string]: unknown;
+}
+
+export interface Tsconfig {
+  /** Absolute path of the tsconfig.json */
+  file: string;
+  compilerOptions: TsconfigCompilerOptions;
+}
+
+const cache = new Map<string, Tsconfig>();
+/** `findTsconfig` results by directory and `stopAt` */
+const found = new Map<string, string | null>();
+
+/** Forget loaded and found configs, e.g. after a tsconfig file changed, was added or removed. */
+export function clearTsconfigCache(): void {
+  cache.clear();
+  found.clear();
+}
+
+/** Nearest `tsconfig.json` from `dir` upwards, not above `stopAt` when given. Results are cached. */
+export function findTsconfig(dir: string, stopAt?: string): string | null {
+  const key = stopAt ? `${dir}\0${stopAt}` : dir;
+  const known = found.get(key);
+  if (known !== undefined) return known;
+  let result: string | null = null;
+  for (let d: string | null = dir; d; d = dirname(d) === d ? null : dirname(d)) {
+    const file = join(d, 'tsconfig.json');
+    if (existsSync(file)) {
+      result = file;
+      break;
+    }
+    if (stopAt && d === stopAt) break;
+  }
+  found.set(key, result);
+  return result;
+}
+
+/**
+ * Load a tsconfig file and the configs it `extends` (relative paths or packages, a string or
+ * an array), merging compilerOptions with the extending config winning. Results are cached.
+ */
+export function loadTsconfig(file: string): Tsconfig {
+  const cached = cache.get(file);
+  if (cached) return cached;
+
+  const raw = parseJsonc(readFileSync(file, 'utf-8')) as {
+    extends?: string | string[];
+    compilerOptions?: Record<string, unknown>;
+  };
+  const dir = dirname(file);
+  let compilerOptions: TsconfigCompilerOptions = {};
+  const parents = raw.extends === undefined ? [] : Array.isArray(raw.extends) ? raw.extends : [raw.extends];
+  for (const parent of parents) {
+    const parentFile = resolveExtends(parent, dir);
+    if (!parentFile) throw new Error(`Cannot find tsconfig '${parent}' extended by ${file}`);
+    compilerOptions = { ...compilerOptions, ...loadTsconfig(parentFile).compilerOptions };
+  }
+
+  const own = { ...raw.compilerOptions } as TsconfigCompilerOptions;
+  if (typeof own.baseUrl === 'string') own.baseUrl = resolve(dir, own.baseUrl);
+  if (own.paths) own.pathsBasePath = dir;
+  compilerOptions = { ...compilerOptions, ...own };
+  if (compilerOptions.baseUrl) compilerOptions.pathsBasePath = compilerOptions.baseUrl;
+
+  const tsconfig = { file, compilerOptions };
+  cache.set(file, tsconfig);
+  return tsconfig;
+}
+
+function resolveExtends(spec: string, dir: string): string | null {
+  if (spec.startsWith('.') || isAbsolute(spec)) {
+    const file = resolve(dir, spec);
+    if (existsSync(file)) return file;
+    return existsSync(file + '.json') ? file + '.json' : null;
+  }
+  const require = createRequire(join(dir, 'tsconfig.json'));
+  for (const candidate of [spec, spec + '.json', spec + '/tsconfig.json']) {
+    try {
+      return require.resolve(candidate);
+    } catch {
+      /* try the next form */
+    }
+  }
+  return null;
+}
+
+/**
+ * Match a specifier against tsconfig `paths` (exact keys or one `*`, longest prefix first).
+ * Returns the candidate paths (absolute, without extension probing) in priority order.
+ */
+export function matchTsconfigPaths(specifier: string, options: TsconfigCompilerOptions): string[] {
+  const { paths, pathsBasePath } = options;
+  if (!paths || !pathsBasePath) return [];
+  const keys = Object.keys(paths).sort((a, b) => prefixLength(b) - prefixLength(a));
+  for (const key of keys) {
+    const star = key.indexOf('*');
+    let match: string | null = null;
+    if (star === -1) {
+      if (specifier === key) match = '';
+    } else {
+      const prefix = key.slice(0, star);
+      const suffix = key.slice(star + 1);
+      if (specifier.startsWith(prefix) && specifier.endsWith(suffix) && specifier.length >= key.length - 1) {
+        match = specifier.slice(prefix.length, specifier.length - suffix.length);
+      }
+    }
+    if (match !== null) return paths[key].map((target) => resolve(pathsBasePath, target.replace('*', match!)));
+  }
+  return [];
+}
+
+function prefixLength(key: string): number {
+  const star = key.indexOf('*');
+  return star === -1 ? key.length + 1 : star;
+}
+
+/** JSON with comments and trailing commas, as accepted in tsconfig files. */
+export function parseJsonc(text: string): unknown {
+  let out = '';
+  /** Drop a comma that only whitespace separates from the closing bracket being added */
+  const dropTrailingComma = () => {
+    let end = out.length;
+    while (end > 0 && /\s/.test(out[end - 1])) end--;
+    if (out[end - 1] === ',') out = out.slice(0, end - 1) + out.slice(end);
+  };
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (c === '"') {
+      const start = i;
+      for (i++; i < text.length && text[i] !== '"'; i++) {
+        if (text[i] === '\\') i++;
+      }
+      out += text.slice(start, i + 1);
+    } else if (c === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+      out += '\n';
+    } else if (c === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 1;
+    } else {
+      if (c === '}' || c === ']') dropTrailingComma();
+      out += c;
+    }
+  }
+  return JSON.parse(out);
+}
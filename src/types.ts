@@ -1,11 +1,18 @@
+import type { ClientRequest, IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { WebSocketServer } from 'ws';
+import type { FSWatcher } from 'chokidar';
+import type { ParsedImport } from './import-lexer.js';
+
 /**
  * Configuration options for the dev server.
  */
 export interface DevServerOptions {
   /** Root directory to serve files from. Defaults to `process.cwd()` */
   root?: string;
-  /** Port to listen on. Defaults to `3000` */
+  /** Port to listen on. Defaults to `3000`; when it is in use the next free port is taken */
   port?: number;
+  /** Fail to start instead of moving on to the next port when `port` is in use */
+  strictPort?: boolean;
   /** Host to bind to. Defaults to `127.0.0.1`; use `0.0.0.0` to expose to network */
   host?: string;
   /** Enable verbose logging */
@@ -18,65 +25,415 @@ export interface DevServerOptions {
   silent?: boolean;
   /** Open browser on start */
   open?: boolean;
+  /** Show transform and HMR errors in an in-page overlay. Defaults to `true` */
+  overlay?: boolean;
   /** Base path for serving under a subpath, e.g. `/app/` for https://example.com/app/ */
   base?: string;
+  /**
+   * Serve over HTTPS (and HMR over `wss:`). `true` generates a self-signed certificate for
+   * localhost and the network addresses, cached in `node_modules/.mini-dev/certs`.
+   */
+  https?: boolean | HttpsOptions;
   /**
    * Proxy specific paths to another server.
    * Object form: `{ '/api': 'http://localhost:8080' }`.
    * Array form: `[{ path: '/api', target: 'http://localhost:8080' }]`.
+   * A value can also be an object such as `{ target: 'http://localhost:8080', ws: true }`.
    * First matching path (longest first) is used. Path is matched against the logical path (under base if set).
    */
-  proxy?: Record<string, string> | Array<{ path: string; target: string }>;
+  proxy?: ProxyConfig;
+  /**
+   * Connect-style `(req, res, next)` handlers that run before the built-in ones (custom headers,
+   * auth stubs, an Express app). Use `{ pre, post }` to also add handlers that run for requests
+   * nothing else served, instead of the 404 page. More can be added with `server.use()`.
+   */
+  middlewares?: MiddlewareConfig;
+  /**
+   * Serve mock API routes from files in this directory (relative to root), ahead of `proxy`
+   * rules: `mock/api/users.ts` answers `/api/users`, `mock/api/users/[id].get.ts` answers
+   * `GET /api/users/:id`. Files are reloaded when edited. Off by default.
+   */
+  mock?: string | MockOptions;
+  /**
+   * History API fallback for single-page apps: browser navigations to paths without a file get
+   * the nearest index.html (with the HMR client), so client-side routes survive a refresh.
+   * Off by default.
+   */
+  spa?: boolean | SpaOptions;
   /**
    * Load .env and .env.local from root and expose vars to the client.
    * Only keys starting with the given prefix are exposed (security: avoid leaking secrets).
    * Set to `false` to disable. Default when enabled: `{ prefix: 'PUBLIC_' }`.
    */
   env?: false | { prefix?: string };
+  /**
+   * Plugins run in order: `enforce: 'pre'` plugins, built-in plugins, plugins without `enforce`,
+   * then `enforce: 'post'` plugins.
+   */
+  plugins?: Plugin[];
+  /** Pre-bundling of dependencies from node_modules into cached ESM files */
+  optimizeDeps?: OptimizeDepsOptions;
+  /** Module resolution options */
+  resolve?: ResolveOptions;
+  /**
+   * Transform caching. Modules are re-served from memory until they (or their imports) change
+   * and answer `If-None-Match` with 304. `persist: true` also stores transform results in
+   * `node_modules/.mini-dev/transforms` for faster cold starts. Set to `false` to disable.
+   */
+  cache?: false | { persist?: boolean };
+  /** Options passed to esbuild when transpiling scripts, overriding the nearest tsconfig.json */
+  esbuild?: EsbuildTransformOptions;
 }
 
-/** Normalized proxy rule used internally. */
-export interface ProxyRule {
-  path: string;
+/**
+ * esbuild transform settings. By default JSX and TypeScript emit follow `compilerOptions` of the
+ * nearest tsconfig.json (`jsx`, `jsxFactory`, `jsxFragmentFactory`, `jsxImportSource`,
+ * `experimentalDecorators`, `useDefineForClassFields`, `verbatimModuleSyntax`, ...).
+ */
+export interface EsbuildTransformOptions {
+  /** `automatic` for the React 17+ runtime, `transform` for `jsxFactory` calls, or `preserve` */
+  jsx?: 'automatic' | 'transform' | 'preserve';
+  /** Function called for JSX elements with `jsx: 'transform'`. Defaults to `React.createElement` */
+  jsxFactory?: string;
+  /** Component used for `<>` fragments with `jsx: 'transform'`. Defaults to `React.Fragment` */
+  jsxFragment?: string;
+  /** Package providing `jsx-runtime` with `jsx: 'automatic'`. Defaults to `react` */
+  jsxImportSource?: string;
+  /** Output syntax target. Defaults to `esnext` */
+  target?: string | string[];
+  /** Global identifiers replaced with constant expressions, e.g. `{ __DEV__: 'true' }` */
+  define?: Record<string, string>;
+}
+
+/** TLS certificate files, as paths relative to root. Use either `key` + `cert` or `pfx`. */
+export interface HttpsOptions {
+  key?: string;
+  cert?: string;
+  pfx?: string;
+  /** Passphrase of the key or pfx */
+  passphrase?: string;
+}
+
+/** How bare imports are resolved to files in packages. */
+export interface ResolveOptions {
+  /**
+   * Conditions matched in package.json `exports` / `imports` (`default` always matches).
+   * Defaults to `['browser', 'import', 'module', 'development']`.
+   */
+  conditions?: string[];
+  /**
+   * Replace import specifiers before resolution, also in CSS `@import`. Object form matches a
+   * key exactly or as a path prefix (`'@': '/src'` maps `@/x` to `/src/x`); array form allows
+   * regular expressions. Replacements may be absolute file paths inside root, root-relative
+   * paths (`/src`) or package names. tsconfig `paths` are applied after aliases.
+   */
+  alias?: Record<string, string> | AliasEntry[];
+  /**
+   * Extensions tried, in order, for imports without one; directory imports try `index` with
+   * each. Defaults to `['.tsx', '.ts', '.jsx', '.js', '.mjs', '.mts']`.
+   */
+  extensions?: string[];
+}
+
+export interface AliasEntry {
+  find: string | RegExp;
+  replacement: string;
+}
+
+/**
+ * Dependency pre-bundling options. Bare imports found in the app are bundled with esbuild
+ * into `node_modules/.mini-dev` so CommonJS packages work in the browser.
+ */
+export interface OptimizeDepsOptions {
+  /** Dependencies to bundle even when the import scan does not find them (e.g. `'react-dom/client'`) */
+  include?: string[];
+  /** Packages (and their subpaths) served from node_modules as-is */
+  exclude?: string[];
+  /** Ignore the cache and re-bundle on startup */
+  force?: boolean;
+}
+
+/** Value or promise of a value; hooks returning `null`/`undefined` defer to the next plugin. */
+export type PluginHookResult<T> = T | null | undefined | void | Promise<T | null | undefined | void>;
+
+/**
+ * Dev server plugin. Module ids are root-relative URL paths (e.g. `/src/App.tsx`, query kept)
+ * or virtual ids returned from `resolveId` (e.g. `virtual:config`), which are served under `/@id/`.
+ */
+export interface Plugin {
+  /** Plugin name, used in error messages */
+  name: string;
+  /** Run before (`pre`) or after (`post`) plugins without `enforce` */
+  enforce?: 'pre' | 'post';
+  /**
+   * Part of the transform cache key: change it whenever `transform` output would change for
+   * the same input, e.g. the plugin's version and options
+   */
+  cacheKey?: string;
+  /** Called once at startup, before the server starts listening */
+  configureServer?: (server: PluginServerContext) => void | Promise<void>;
+  /** Resolve an import specifier to a module id. First non-null result wins. */
+  resolveId?: (source: string, importer: string) => PluginHookResult<string>;
+  /** Load the source of a module id. First non-null result wins; falls back to reading the file. */
+  load?: (id: string) => PluginHookResult<string | { code: string }>;
+  /** Transform module source. Every plugin runs in order, each receiving the previous result. */
+  transform?: (code: string, id: string) => PluginHookResult<string | { code: string }>;
+  /** Transform HTML pages before the HMR client is injected. */
+  transformIndexHtml?: (html: string, ctx: { path: string }) => PluginHookResult<string>;
+}
+
+/**
+ * Connect-style request handler: finish the response, or call `next()` to pass the request on.
+ * `next(err)` (or a thrown error) answers 500.
+ */
+export type Middleware = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  next: (err?: unknown) => void
+) => void | Promise<void>;
+
+/** `middlewares` option: handlers run before the built-in ones, or `{ pre, post }`. */
+export type MiddlewareConfig = Middleware[] | { pre?: Middleware[]; post?: Middleware[] };
+
+/** A `_redirects` rule for the preview server. */
+export interface RedirectRule {
+  /** Path pattern: `:name` matches one segment, a trailing `*` the rest (`:splat` in `to`) */
+  from: string;
+  /** Path or URL, with `:name` and `:splat` placeholders */
+  to: string;
+  /**
+   * 301/302 redirect, 200 serves `to` in place (or proxies a URL), 404 serves `to` as the
+   * not-found page. Defaults to `301`
+   */
+  status?: number;
+  /** Apply even when a file exists at the path. Defaults to `false` */
+  force?: boolean;
+  /** Query parameters the request must have: `{ id: ':id' }` captures, `{ v: '2' }` must equal */
+  query?: Record<string, string>;
+}
+
+/** `spa` option in object form. Patterns are path prefixes or regular expressions, matched below base. */
+export interface SpaOptions {
+  /** Page to serve for every fallback, e.g. `/app.html`. Default: the nearest `index.html` */
+  index?: string;
+  /** Paths that always get the fallback, even without `Accept: text/html` or with an extension */
+  include?: Array<string | RegExp>;
+  /** Paths that never get the fallback, e.g. `/api` */
+  exclude?: Array<string | RegExp>;
+}
+
+/** `mock` option in object form. */
+export interface MockOptions {
+  /** Directory of mock route files, relative to root */
+  dir: string;
+  /** Milliseconds to wait before every mock response, e.g. to show loading states. Defaults to `0` */
+  delay?: number;
+}
+
+/** Request passed to a mock route handler. */
+export interface MockRequest extends IncomingMessage {
+  /** Values of `[name]` and `[...name]` segments in the route's file path */
+  params: Record<string, string>;
+  query: Record<string, string>;
+  /** Parsed JSON or form body, other bodies as text; `undefined` when empty */
+  body: unknown;
+}
+
+/**
+ * Default export of a mock route file. The return value is sent as JSON (strings as text);
+ * set `res.statusCode` or headers for other answers, or write the response yourself. Files
+ * may also export `delay` (ms), `status` and `headers`, or a plain value as the default export.
+ */
+export type MockHandler = (req: MockRequest, res: ServerResponse) => unknown;
+
+/** Server handles passed to `Plugin.configureServer`. */
+export interface PluginServerContext {
+  /** Absolute root directory */
+  root: string;
+  /** Normalized base path (`''` or e.g. `/app/`) */
+  base: string;
+  httpServer: Server;
+  wss: WebSocketServer;
+  watcher: FSWatcher;
+  /** Send a message to every connected HMR client */
+  send: (message: { type: string; [key: string]: unknown }) => void;
+  /** Add a Connect-style handler, as `DevServer.use()` */
+  use: (middleware: Middleware, placement?: 'pre' | 'post') => void;
+}
+
+/** Options for one proxied path. */
+export interface ProxyOptions {
+  /** Server to forward to, e.g. `http://localhost:8080` */
   target: string;
+  /** Also forward WebSocket upgrade requests on this path. Defaults to `false` */
+  ws?: boolean;
+  /**
+   * Rewrite the path (with query) before it is appended to `target`. A string replaces the
+   * matched part of the path (`''` strips the `/api` prefix), `{ from, to }` replaces a regex
+   * match, and a function maps the whole path.
+   */
+  rewrite?: string | { from: RegExp; to: string } | ((path: string) => string);
+  /** Send the target's host as the `Host` header instead of the browser's. Defaults to `false` */
+  changeOrigin?: boolean;
+  /** Extra headers for the upstream request, e.g. `{ Authorization: 'Bearer …' }` */
+  headers?: Record<string, string>;
+  /** Milliseconds to wait for the target to start responding before answering 504 */
+  timeout?: number;
+  /**
+   * Rewrite the `Domain` attribute of `Set-Cookie` headers: a string for every cookie (`''`
+   * removes the attribute so the cookie belongs to the dev origin), or a map from domain to
+   * new domain with `'*'` matching any domain.
+   */
+  cookieDomainRewrite?: string | Record<string, string>;
+  /** Verify the certificate of an `https:`/`wss:` target. Defaults to `true` */
+  secure?: boolean;
+  /** Called with the upstream request before its body is sent, e.g. to set headers */
+  onProxyReq?: (proxyReq: ClientRequest, req: IncomingMessage, res: ServerResponse) => void;
+  /** Called with the upstream response before it is forwarded; may change its status or headers */
+  onProxyRes?: (proxyRes: IncomingMessage, req: IncomingMessage, res: ServerResponse) => void;
+}
+
+/**
+ * `proxy` option: path → target URL or options, or a list of rules with a `path`. Object keys
+ * starting with `^` are regular expressions; in the array form `path` may be a `RegExp`.
+ */
+export type ProxyConfig = Record<string, string | ProxyOptions> | Array<ProxyOptions & { path: string | RegExp }>;
+
+/** Normalized proxy rule used internally. */
+export interface ProxyRule extends ProxyOptions {
+  path: string | RegExp;
+  ws: boolean;
 }
 
 /** Options for the preview server (static file serving only, no HMR). */
 export interface PreviewServerOptions {
   /** Root directory to serve. Defaults to `./dist` for preview. */
   root?: string;
-  /** Port. Defaults to `4173` */
+  /** Port. Defaults to `4173`; when it is in use the next free port is taken */
   port?: number;
+  /** Fail to start instead of moving on to the next port when `port` is in use */
+  strictPort?: boolean;
   /** Host. Defaults to `127.0.0.1` */
   host?: string;
   /** Base path, e.g. `/app/` */
   base?: string;
   /** Proxy paths to another server */
-  proxy?: Record<string, string> | Array<{ path: string; target: string }>;
+  proxy?: ProxyConfig;
+  /** Connect-style handlers, as for the dev server */
+  middlewares?: MiddlewareConfig;
+  /** History API fallback for single-page apps, as for the dev server */
+  spa?: boolean | SpaOptions;
+  /** Serve `/about` from `about.html` and redirect `/about.html` there. Defaults to `false` */
+  cleanUrls?: boolean;
+  /**
+   * Redirect page URLs to a form with (`true`) or without (`false`) a trailing slash.
+   * Paths ending in a file extension are left alone. Unset: no redirects.
+   */
+  trailingSlash?: boolean;
+  /**
+   * Response headers by path pattern (`/assets/*`, `/blog/:slug`), like a `_headers` file in
+   * root, which is read too and comes first.
+   */
+  headers?: Record<string, Record<string, string>>;
+  /** Redirect and rewrite rules, applied after those of a `_redirects` file in root */
+  redirects?: RedirectRule[];
   /** Open browser on start */
   open?: boolean;
   /** Disable logs */
   silent?: boolean;
   /** Label in logs. Defaults to `MINI-DEV preview` */
   label?: string;
+  /** Serve over HTTPS; `true` generates a self-signed certificate */
+  https?: boolean | HttpsOptions;
+}
+
+/** Contents of `mini-dev.config.*`: dev server options, plus the ones only `preview` uses. */
+export interface UserConfig
+  extends DevServerOptions,
+    Pick<PreviewServerOptions, 'cleanUrls' | 'trailingSlash' | 'headers' | 'redirects'> {}
+
+/** Passed to a config function. */
+export interface ConfigEnv {
+  /** `serve` for the dev server */
+  command: 'serve' | 'build' | 'preview';
+  /** `--mode`; defaults to `development` for the dev server, `production` otherwise */
+  mode: string;
+}
+
+export type UserConfigFn = (env: ConfigEnv) => UserConfig | Promise<UserConfig>;
+
+/** What a config file may export as default. */
+export type UserConfigExport = UserConfig | Promise<UserConfig> | UserConfigFn;
+
+/** Options for `build()` / `mini-dev build`. */
+export interface BuildOptions {
+  /** Project root containing the HTML entries. Defaults to `process.cwd()` */
+  root?: string;
+  /** Output directory, relative to root. Defaults to `dist` */
+  outDir?: string;
+  /** Base path the output is served from, e.g. `/app/` */
+  base?: string;
+  /** Inline env vars with this prefix in place of `<script src="/@env">`. Same semantics as `DevServerOptions.env` */
+  env?: false | { prefix?: string };
+  /** Minify JS and CSS. Defaults to `true` */
+  minify?: boolean;
+  /** Emit source maps. Defaults to `false` */
+  sourcemap?: boolean;
+  /** esbuild target. Defaults to `es2020` */
+  target?: string | string[];
+  /** Remove outDir before building. Defaults to `true` when outDir is inside root */
+  emptyOutDir?: boolean;
+  /** Disable logs */
+  silent?: boolean;
+  /** Label in logs. Defaults to `MINI-DEV build` */
+  label?: string;
+}
+
+/** Result of `build()`. */
+export interface BuildResult {
+  /** Absolute output directory */
+  outDir: string;
+  /** Written files, relative to outDir */
+  files: string[];
 }
 
 /**
  * Module metadata stored in the module graph.
  */
 export interface ModuleInfo {
+  /** Module id: root-relative URL path (query kept) or virtual id */
+  id: string;
   code: string;
+  /** ETag of `code`; empty until the module is served and after it or a dependency changes */
+  etag: string;
   timestamp: number;
+  /** URL the browser requests, without base */
   url: string;
+  /** Ids of modules that import this one */
+  importers: Set<string>;
+  /** Imports parsed from the transformed source, with specifiers as written before resolution */
+  imports: ParsedImport[];
+  /** Ids of modules this one imports */
+  importedModules: Set<string>;
+  /** Ids of dependencies accepted via `import.meta.hot.accept(deps, cb)` */
+  acceptedDeps: Set<string>;
+  /** Whether the module calls `import.meta.hot.accept()` / `accept(cb)` */
+  isSelfAccepting: boolean;
+  /** Whether the module calls `import.meta.hot.decline()`; updates reaching it reload the page */
+  isDeclined: boolean;
+  /** Timestamp of the last HMR update, appended to import URLs so browsers refetch (`0` if never updated) */
+  lastHMRTimestamp: number;
 }
 
-/**
- * WebSocket message types for HMR.
- */
-export interface HMRUpdateMessage {
-  type: 'update';
-  path: string;
-  timestamp: number;
-}
+export type { ParsedImport } from './import-lexer.js';
 
-export type HMRMessage = HMRUpdateMessage;
+export type {
+  HMRUpdate,
+  HMRUpdateMessage,
+  HMRFullReloadMessage,
+  HMRPruneMessage,
+  HMRCustomMessage,
+  HMRErrorMessage,
+  HMRErrorPayload,
+  HMRMessage,
+} from './hot-types.js';